@@ -19,6 +19,8 @@ async function main() {
       address: 'Conakry, Guinée',
       email: 'contact@emergence-transit.com',
       nif: 'GN.TCC.2022.M2.06204',
+      dossierPrefix: 'ETG',
+      dossierPerRegime: true,
     },
   });
 
@@ -60,6 +62,39 @@ async function main() {
 
   console.log(`✅ Client created: ${client.name}`);
 
+  // Create demo tariff lines
+  const tariffs = [
+    { hsCode: '07031000', description: 'Oignons et échalotes, frais ou réfrigérés', cetCategory: 4 },
+    { hsCode: '10063000', description: 'Riz semi-blanchi ou blanchi', cetCategory: 2 },
+    { hsCode: '30049000', description: 'Médicaments conditionnés pour la vente au détail', cetCategory: 1, vatExempt: true },
+    { hsCode: '8703', description: 'Voitures de tourisme et autres véhicules automobiles', cetCategory: 3 },
+  ];
+
+  for (const tariff of tariffs) {
+    const existing = await prisma.tariffCode.findFirst({
+      where: { companyId: company.id, hsCode: tariff.hsCode, effectiveTo: null },
+    });
+    if (!existing) {
+      await prisma.tariffCode.create({
+        data: { ...tariff, companyId: company.id, effectiveFrom: new Date('2024-01-01') },
+      });
+    }
+  }
+
+  console.log(`✅ Tariff lines created: ${tariffs.length}`);
+
+  // Create demo exchange rates
+  const rateDate = new Date('2026-01-01');
+  for (const [currency, rate] of [['USD', 8646.285], ['EUR', 9400]] as const) {
+    await prisma.exchangeRate.upsert({
+      where: { companyId_currency_date: { companyId: company.id, currency, date: rateDate } },
+      update: {},
+      create: { companyId: company.id, currency, date: rateDate, rate },
+    });
+  }
+
+  console.log('✅ Exchange rates created');
+
   // Create demo shipment
   const shipment = await prisma.shipment.create({
     data: {
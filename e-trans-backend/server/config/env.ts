@@ -22,6 +22,17 @@ export const env = {
   
   // AI (Gemini)
   GEMINI_API_KEY: process.env.GEMINI_API_KEY || '',
+  
+  // Document storage (local | s3)
+  STORAGE_DRIVER: process.env.STORAGE_DRIVER || 'local',
+  STORAGE_LOCAL_DIR: process.env.STORAGE_LOCAL_DIR || './uploads',
+  UPLOAD_MAX_SIZE_MB: parseInt(process.env.UPLOAD_MAX_SIZE_MB || '10', 10),
+  S3_BUCKET: process.env.S3_BUCKET || '',
+  S3_REGION: process.env.S3_REGION || 'us-east-1',
+  S3_ENDPOINT: process.env.S3_ENDPOINT || '',
+  S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID || '',
+  S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY || '',
+  S3_FORCE_PATH_STYLE: process.env.S3_FORCE_PATH_STYLE === 'true',
 };
 
 export const isProduction = env.NODE_ENV === 'production';
@@ -46,6 +57,11 @@ const validateEnv = () => {
     console.warn('⚠️  RESEND_API_KEY not set - emails will be skipped');
   }
   
+  if (env.STORAGE_DRIVER === 's3' && !env.S3_BUCKET) {
+    console.error('❌ S3_BUCKET is required when STORAGE_DRIVER=s3');
+    if (isProduction) process.exit(1);
+  }
+  
   if (!env.GEMINI_API_KEY) {
     console.warn('⚠️  GEMINI_API_KEY not set - AI features disabled');
   }
@@ -18,6 +18,21 @@ import authRoutes from './routes/auth.js';
 import shipmentRoutes from './routes/shipments.js';
 import financeRoutes from './routes/finance.js';
 import aiRoutes from './routes/ai.js';
+import containerRoutes from './routes/containers.js';
+import demurrageRoutes from './routes/demurrage.js';
+import feeScheduleRoutes from './routes/fee-schedules.js';
+import tariffRoutes from './routes/tariffs.js';
+import exchangeRateRoutes from './routes/exchange-rates.js';
+import clientRoutes from './routes/clients.js';
+import portalRoutes from './routes/portal.js';
+import publicRoutes from './routes/public.js';
+import settingsRoutes from './routes/settings.js';
+import documentRoutes from './routes/documents.js';
+import invoiceRoutes from './routes/invoices.js';
+import paymentRoutes from './routes/payments.js';
+import treasuryRoutes from './routes/treasury.js';
+import reconciliationRoutes from './routes/reconciliation.js';
+import accountingRoutes from './routes/accounting.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -79,6 +94,14 @@ const authLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+const publicLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: isProduction ? 20 : 200,
+  message: { success: false, message: 'Trop de requêtes, réessayez plus tard' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 app.use(globalLimiter);
 
 // Request logging
@@ -114,7 +137,22 @@ app.get('/api/health', async (req, res) => {
 app.use('/api/auth', authLimiter, authRoutes);
 app.use('/api/shipments', shipmentRoutes);
 app.use('/api/finance', financeRoutes);
+app.use('/api/invoices', invoiceRoutes);
+app.use('/api/payments', paymentRoutes);
+app.use('/api/treasury', treasuryRoutes);
+app.use('/api/reconciliation', reconciliationRoutes);
+app.use('/api/accounting', accountingRoutes);
 app.use('/api/ai', aiRoutes);
+app.use('/api/containers', containerRoutes);
+app.use('/api/demurrage', demurrageRoutes);
+app.use('/api/fee-schedules', feeScheduleRoutes);
+app.use('/api/tariffs', tariffRoutes);
+app.use('/api/exchange-rates', exchangeRateRoutes);
+app.use('/api/clients', clientRoutes);
+app.use('/api/documents', documentRoutes);
+app.use('/api/settings', settingsRoutes);
+app.use('/api/portal', portalRoutes);
+app.use('/api/public', publicLimiter, publicRoutes);
 
 // Serve static files in production
 if (isProduction) {
@@ -20,6 +20,7 @@ declare global {
         name: string;
         role: string;
         companyId: string;
+        clientId: string | null;
       };
     }
   }
@@ -51,6 +52,7 @@ export const auth = async (req: Request, res: Response, next: NextFunction) => {
         name: true,
         role: true,
         companyId: true,
+        clientId: true,
         isActive: true,
         emailVerified: true,
       },
@@ -87,6 +89,7 @@ export const auth = async (req: Request, res: Response, next: NextFunction) => {
       name: user.name,
       role: user.role,
       companyId: user.companyId,
+      clientId: user.clientId,
     };
 
     next();
@@ -130,3 +133,24 @@ export const requireRole = (...roles: string[]) => {
 export const requireDirector = requireRole('DIRECTOR');
 export const requireAccountant = requireRole('DIRECTOR', 'ACCOUNTANT');
 export const requireAgent = requireRole('DIRECTOR', 'ACCOUNTANT', 'AGENT');
+
+// Staff routes: every role of the forwarding company, never client contacts
+export const requireStaff = requireAgent;
+
+export const requireClient = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      message: 'Authentification requise',
+    });
+  }
+
+  if (req.user.role !== 'CLIENT' || !req.user.clientId) {
+    return res.status(403).json({
+      success: false,
+      message: 'Accès réservé aux clients',
+    });
+  }
+
+  next();
+};
@@ -0,0 +1,42 @@
+// server/middleware/upload.ts
+
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { MAX_UPLOAD_SIZE, checkUpload } from '../services/storage.service.js';
+
+const single = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_SIZE, files: 1 },
+}).single('file');
+
+// Parses one multipart `file` field and validates it. JSON requests pass
+// through untouched so link-only documents keep working.
+export const uploadFile = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.is('multipart/form-data')) return next();
+
+  single(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      return res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+        success: false,
+        message: error.code === 'LIMIT_FILE_SIZE'
+          ? `Fichier trop volumineux (max ${Math.round(MAX_UPLOAD_SIZE / 1024 / 1024)} Mo)`
+          : 'Envoi de fichier invalide',
+        code: error.code,
+      });
+    }
+    if (error) return next(error);
+
+    if (req.file) {
+      const problem = checkUpload(req.file);
+      if (problem) {
+        return res.status(415).json({
+          success: false,
+          message: problem,
+          code: 'INVALID_FILE',
+        });
+      }
+    }
+
+    next();
+  });
+};
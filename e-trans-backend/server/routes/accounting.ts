@@ -0,0 +1,379 @@
+// server/routes/accounting.ts
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../config/prisma.js';
+import { log } from '../config/logger.js';
+import { auth, requireAccountant, requireDirector } from '../middleware/auth.js';
+import {
+  DEFAULT_ACCOUNTING_MAPPING,
+  JournalExportError,
+  JournalLine,
+  buildJournal,
+  findJournalSources,
+  formatJournalCsv,
+  formatJournalFixedWidth,
+  journalLineSchema,
+  loadAccountingMap,
+} from '../services/accounting.service.js';
+
+const router = Router();
+router.use(auth);
+router.use(requireAccountant);
+
+// Validation schemas
+const mappingKey = z.string().regex(
+  /^(CLIENT|VAT_COLLECTED|TRANSFER|TYPE:\w+|CATEGORY:\w+|FEE:\w+|TREASURY:\w+|JOURNAL:\w+|ADJUSTMENT:(GAIN|LOSS|BANK))$/,
+  'Clé de correspondance inconnue'
+);
+
+const mappingSchema = z.object({
+  entries: z.array(z.object({
+    key: mappingKey,
+    account: z.string().regex(/^[A-Z0-9]{2,13}$/, 'Compte ou journal: 2 à 13 lettres ou chiffres'),
+    label: z.string().optional(),
+  })).min(1),
+});
+
+const periodSchema = z.object({
+  from: z.string().transform(s => new Date(s)),
+  to: z.string().transform(s => new Date(s)),
+}).refine(p => !isNaN(p.from.getTime()) && !isNaN(p.to.getTime()) && p.from <= p.to, {
+  message: 'Période invalide',
+});
+
+// `to` is a day: include all of it
+const endOfDay = (date: Date) => new Date(date.getTime() + 24 * 60 * 60 * 1000 - 1);
+
+const sendJournal = (res: Response, lines: JournalLine[], format: string, name: string) => {
+  const fixed = format === 'fixed';
+  res.setHeader('Content-Type', fixed ? 'text/plain; charset=utf-8' : 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${name}.${fixed ? 'txt' : 'csv'}"`);
+  res.send(fixed ? formatJournalFixedWidth(lines) : '\uFEFF' + formatJournalCsv(lines));
+};
+
+// ============================================
+// GET /api/accounting/mapping
+// ============================================
+
+router.get('/mapping', async (req: Request, res: Response) => {
+  try {
+    const overrides = await prisma.accountingMapping.findMany({
+      where: { companyId: req.user!.companyId },
+      orderBy: { key: 'asc' },
+    });
+
+    const keys = new Set([...Object.keys(DEFAULT_ACCOUNTING_MAPPING), ...overrides.map(o => o.key)]);
+    const mapping = [...keys].map(key => {
+      const override = overrides.find(o => o.key === key);
+      const fallback = DEFAULT_ACCOUNTING_MAPPING[key];
+      return {
+        key,
+        account: override?.account ?? fallback?.account,
+        label: override?.label ?? fallback?.label ?? null,
+        isDefault: !override,
+      };
+    });
+
+    res.json({ success: true, data: { mapping } });
+  } catch (error) {
+    log.error('Get accounting mapping error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// PUT /api/accounting/mapping
+// ============================================
+
+router.put('/mapping', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const { entries } = mappingSchema.parse(req.body);
+    const companyId = req.user!.companyId;
+
+    await prisma.$transaction(
+      entries.map(e =>
+        prisma.accountingMapping.upsert({
+          where: { companyId_key: { companyId, key: e.key } },
+          create: { companyId, key: e.key, account: e.account, label: e.label },
+          update: { account: e.account, label: e.label },
+        })
+      )
+    );
+
+    log.audit('Accounting mapping updated', { companyId, keys: entries.map(e => e.key) });
+
+    res.json({ success: true, message: 'Correspondances enregistrées' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Update accounting mapping error', error);
+    res.status(500).json({ success: false, message: 'Erreur de mise à jour' });
+  }
+});
+
+// ============================================
+// DELETE /api/accounting/mapping/:key
+// ============================================
+
+router.delete('/mapping/:key', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const { count } = await prisma.accountingMapping.deleteMany({
+      where: { companyId: req.user!.companyId, key: req.params.key },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Correspondance non trouvée',
+      });
+    }
+
+    log.audit('Accounting mapping reset', { key: req.params.key });
+
+    res.json({ success: true, message: 'Correspondance par défaut rétablie' });
+  } catch (error) {
+    log.error('Delete accounting mapping error', error);
+    res.status(500).json({ success: false, message: 'Erreur de suppression' });
+  }
+});
+
+// ============================================
+// GET /api/accounting/journal?from=&to=
+// ============================================
+
+// Preview of what the next export of the period would contain
+router.get('/journal', async (req: Request, res: Response) => {
+  try {
+    const { from, to } = periodSchema.parse(req.query);
+    const companyId = req.user!.companyId;
+
+    const [map, sources] = await Promise.all([
+      loadAccountingMap(companyId),
+      findJournalSources(companyId, from, endOfDay(to)),
+    ]);
+    const { invoiceIds, movementIds, ...journal } = buildJournal(map, sources);
+
+    res.json({
+      success: true,
+      data: { from, to, invoices: invoiceIds.length, movements: movementIds.length, ...journal },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Journal preview error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/accounting/exports
+// ============================================
+
+router.post('/exports', async (req: Request, res: Response) => {
+  try {
+    const { from, to } = periodSchema.parse(req.body);
+    const companyId = req.user!.companyId;
+
+    const [map, sources] = await Promise.all([
+      loadAccountingMap(companyId),
+      findJournalSources(companyId, from, endOfDay(to)),
+    ]);
+    const journal = buildJournal(map, sources);
+
+    if (journal.lines.length === 0) {
+      return res.status(422).json({
+        success: false,
+        message: 'Aucune écriture à exporter sur la période',
+        code: 'JOURNAL_EMPTY',
+      });
+    }
+
+    if (!journal.balanced) {
+      return res.status(422).json({
+        success: false,
+        message: 'Journal déséquilibré : vérifiez les correspondances de comptes',
+        code: 'JOURNAL_UNBALANCED',
+        pieces: journal.unbalanced,
+      });
+    }
+
+    // Only items still unlocked are claimed, so two concurrent exports
+    // cannot take the same entry
+    const journalExport = await prisma.$transaction(async (tx) => {
+      const created = await tx.journalExport.create({
+        data: {
+          fromDate: from,
+          toDate: to,
+          entryCount: journal.lines.length,
+          totalDebit: journal.totalDebit,
+          totalCredit: journal.totalCredit,
+          entries: journal.lines,
+          companyId,
+          exportedById: req.user!.id,
+        },
+      });
+
+      const [invoices, movements] = await Promise.all([
+        tx.invoice.updateMany({
+          where: { id: { in: journal.invoiceIds }, journalExportId: null },
+          data: { journalExportId: created.id },
+        }),
+        tx.treasuryMovement.updateMany({
+          where: { id: { in: journal.movementIds }, journalExportId: null },
+          data: { journalExportId: created.id },
+        }),
+      ]);
+
+      if (invoices.count !== journal.invoiceIds.length || movements.count !== journal.movementIds.length) {
+        throw new JournalExportError('JOURNAL_EXPORT_CONFLICT', 'Écritures exportées entre-temps par un autre export, réessayez');
+      }
+
+      return created;
+    });
+
+    log.audit('Journal exported', {
+      exportId: journalExport.id,
+      from,
+      to,
+      entries: journal.lines.length,
+      totalDebit: journal.totalDebit,
+    });
+
+    const { entries, ...summary } = journalExport;
+    res.status(201).json({ success: true, data: { export: summary } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    if (error instanceof JournalExportError) {
+      return res.status(error.status).json({ success: false, message: error.message, code: error.code });
+    }
+    log.error('Journal export error', error);
+    res.status(500).json({ success: false, message: 'Erreur d\'export' });
+  }
+});
+
+// ============================================
+// GET /api/accounting/exports
+// ============================================
+
+router.get('/exports', async (req: Request, res: Response) => {
+  try {
+    const exports = await prisma.journalExport.findMany({
+      where: { companyId: req.user!.companyId },
+      select: {
+        id: true, fromDate: true, toDate: true, entryCount: true, totalDebit: true, totalCredit: true,
+        exportedById: true, createdAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+
+    res.json({ success: true, data: { exports } });
+  } catch (error) {
+    log.error('Get journal exports error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// GET /api/accounting/exports/:id/download?format=csv|fixed
+// ============================================
+
+router.get('/exports/:id/download', async (req: Request, res: Response) => {
+  try {
+    const journalExport = await prisma.journalExport.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+    });
+
+    if (!journalExport) {
+      return res.status(404).json({
+        success: false,
+        message: 'Export non trouvé',
+      });
+    }
+
+    const name = `journal_${journalExport.fromDate.toISOString().slice(0, 10)}_${journalExport.toDate.toISOString().slice(0, 10)}`;
+    sendJournal(res, z.array(journalLineSchema).parse(journalExport.entries), req.query.format as string, name);
+  } catch (error) {
+    log.error('Download journal export error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// DELETE /api/accounting/exports/:id
+// ============================================
+
+// Only the latest export can be withdrawn, e.g. when the accounting
+// software rejected the file; its entries are unlocked.
+router.delete('/exports/:id', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const companyId = req.user!.companyId;
+
+    const [journalExport, latest] = await Promise.all([
+      prisma.journalExport.findFirst({ where: { id: req.params.id, companyId } }),
+      prisma.journalExport.findFirst({ where: { companyId }, orderBy: { createdAt: 'desc' }, select: { id: true } }),
+    ]);
+
+    if (!journalExport) {
+      return res.status(404).json({
+        success: false,
+        message: 'Export non trouvé',
+      });
+    }
+
+    if (latest?.id !== journalExport.id) {
+      return res.status(409).json({
+        success: false,
+        message: 'Seul le dernier export peut être annulé',
+        code: 'NOT_LATEST_EXPORT',
+      });
+    }
+
+    await prisma.$transaction([
+      prisma.invoice.updateMany({ where: { journalExportId: journalExport.id }, data: { journalExportId: null } }),
+      prisma.treasuryMovement.updateMany({ where: { journalExportId: journalExport.id }, data: { journalExportId: null } }),
+      prisma.journalExport.delete({ where: { id: journalExport.id } }),
+      prisma.auditLog.create({
+        data: {
+          action: 'JOURNAL_EXPORT_WITHDRAWN',
+          entity: 'JournalExport',
+          entityId: journalExport.id,
+          details: {
+            fromDate: journalExport.fromDate.toISOString(),
+            toDate: journalExport.toDate.toISOString(),
+            entries: journalExport.entryCount,
+          },
+          ipAddress: req.ip,
+          userAgent: req.get('user-agent'),
+          userId: req.user!.id,
+        },
+      }),
+    ]);
+
+    log.audit('Journal export withdrawn', { exportId: journalExport.id });
+
+    res.json({ success: true, message: 'Export annulé, écritures déverrouillées' });
+  } catch (error) {
+    log.error('Delete journal export error', error);
+    res.status(500).json({ success: false, message: 'Erreur de suppression' });
+  }
+});
+
+export default router;
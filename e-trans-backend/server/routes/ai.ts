@@ -5,11 +5,14 @@ import { GoogleGenerativeAI } from '@google/generative-ai';
 import { z } from 'zod';
 import { env } from '../config/env.js';
 import { log } from '../config/logger.js';
-import { auth } from '../middleware/auth.js';
+import { auth, requireStaff } from '../middleware/auth.js';
+import { findTariff, calculateDuties } from '../services/customs.service.js';
+import { findRate } from '../services/exchange-rate.service.js';
 import rateLimit from 'express-rate-limit';
 
 const router = Router();
 router.use(auth);
+router.use(requireStaff);
 
 // Rate limiting for AI
 const aiLimiter = rateLimit({
@@ -31,7 +34,9 @@ const chatSchema = z.object({
 const calculateSchema = z.object({
   hsCode: z.string().min(4),
   value: z.number().positive(),
-  currency: z.string().optional(),
+  currency: z.string().length(3).toUpperCase().optional(),
+  date: z.string().refine(v => !isNaN(Date.parse(v)), 'Date invalide').optional(),
+  regime: z.enum(['IM4', 'IM5', 'IM6', 'IM7', 'EX1', 'EX2', 'TR']).optional(),
 });
 
 // System prompt
@@ -39,7 +44,7 @@ const CUSTOMS_PROMPT = `Tu es un expert en douane et transit pour la Guinée Con
 Tu aides les transitaires avec:
 - Les régulations douanières guinéennes
 - Les codes SH et classifications
-- Les calculs de droits et taxes (DD 35%, TVA 18%, RTL 2%, PC 0.5%, CA 0.25%, BFU)
+- Les calculs de droits et taxes (DD selon catégorie TEC 0 à 35%, TVA 18%, RTL 2%, PC 0.5%, CA 0.25%, BFU)
 - Les procédures de dédouanement
 - Les documents requis (BL, DDI, BAE, etc.)
 
@@ -102,58 +107,64 @@ router.post('/chat', async (req: Request, res: Response) => {
 
 router.post('/calculate-customs', async (req: Request, res: Response) => {
   try {
-    const { hsCode, value, currency = 'USD' } = calculateSchema.parse(req.body);
-
-    // Exchange rate (simplified - should use real API)
-    const rates: Record<string, number> = {
-      USD: 8646,
-      EUR: 9400,
-      GNF: 1,
-    };
-
-    const rate = rates[currency] || rates.USD;
-    const valueGnf = value * rate;
-
-    // Guinea customs rates
-    const ddRate = 0.35;    // Droit de Douane
-    const rtlRate = 0.02;   // RTL
-    const pcRate = 0.005;   // PC
-    const caRate = 0.0025;  // CA
-    const tvaRate = 0.18;   // TVA
-
-    // Calculate duties
-    const dd = Math.round(valueGnf * ddRate);
-    const rtl = Math.round(valueGnf * rtlRate);
-    const pc = Math.round(valueGnf * pcRate);
-    const ca = Math.round(valueGnf * caRate);
-    
-    // TVA base includes DD
-    const tvaBase = valueGnf + dd;
-    const tva = Math.round(tvaBase * tvaRate);
-    
-    // BFU (fixed based on value)
-    const bfu = valueGnf > 100000000 ? 500000 : valueGnf > 50000000 ? 350000 : 200000;
-
-    const totalDuties = dd + rtl + pc + ca + tva + bfu;
+    const { hsCode, value, currency = 'USD', date, regime = 'IM4' } = calculateSchema.parse(req.body);
+
+    const asOf = date ? new Date(date) : new Date();
+    const exchange = await findRate(req.user!.companyId, currency, asOf);
+
+    if (!exchange) {
+      return res.status(422).json({
+        success: false,
+        message: `Aucun taux de change ${currency} en vigueur`,
+        code: 'EXCHANGE_RATE_NOT_FOUND',
+      });
+    }
+
+    const rate = exchange.rate;
+    const valueGnf = Math.round(value * rate);
+
+    const tariff = await findTariff(req.user!.companyId, hsCode, asOf);
+
+    if (!tariff) {
+      return res.status(404).json({
+        success: false,
+        message: `Code SH ${hsCode} absent du tarif`,
+        code: 'TARIFF_NOT_FOUND',
+      });
+    }
+
+    const {
+      regime: regimeInfo,
+      totalDuties,
+      suspendedDuties,
+      guarantee,
+      amountDueIfNotDischarged,
+      rules,
+      ...duties
+    } = calculateDuties(valueGnf, tariff, regime);
 
     res.json({
       success: true,
       data: {
         hsCode,
+        tariff: {
+          hsCode: tariff.hsCode,
+          description: tariff.description,
+          cetCategory: tariff.cetCategory,
+          effectiveFrom: tariff.effectiveFrom,
+        },
         cifValue: value,
         cifCurrency: currency,
         exchangeRate: rate,
         cifValueGnf: valueGnf,
-        duties: {
-          dd: { rate: ddRate * 100, amount: dd },
-          rtl: { rate: rtlRate * 100, amount: rtl },
-          pc: { rate: pcRate * 100, amount: pc },
-          ca: { rate: caRate * 100, amount: ca },
-          tva: { rate: tvaRate * 100, base: tvaBase, amount: tva },
-          bfu: { amount: bfu },
-        },
+        regime: regimeInfo,
+        duties,
         totalDuties,
-        disclaimer: 'Ces calculs sont indicatifs. Les taux réels peuvent varier selon le code SH et les réglementations en vigueur.',
+        suspendedDuties,
+        guarantee,
+        amountDueIfNotDischarged,
+        rules,
+        disclaimer: 'Ces calculs sont indicatifs et dépendent du tarif enregistré pour votre entreprise.',
       },
     });
   } catch (error) {
@@ -9,7 +9,13 @@ import { env } from '../config/env.js';
 import { log } from '../config/logger.js';
 import { auth } from '../middleware/auth.js';
 import { setAuthCookies, clearAuthCookies } from '../utils/cookies.js';
-import { generateVerificationCode, sendVerificationEmail, sendWelcomeEmail } from '../services/email.service.js';
+import {
+  generateVerificationCode,
+  hashInvitationToken,
+  sendVerificationEmail,
+  sendWelcomeEmail,
+} from '../services/email.service.js';
+import { isDossierPrefixTaken } from '../services/numbering.service.js';
 
 const router = Router();
 
@@ -36,6 +42,14 @@ const resendCodeSchema = z.object({
   email: z.string().email(),
 });
 
+const acceptInviteSchema = z.object({
+  email: z.string().email(),
+  token: z.string().min(32),
+  password: z.string().min(8, 'Mot de passe min 8 caractères'),
+});
+
+const MAX_INVITATION_ATTEMPTS = 5;
+
 // Helpers
 const generateSlug = (name: string): string => {
   return name
@@ -105,13 +119,17 @@ router.post('/register', async (req: Request, res: Response) => {
       });
     }
 
-    // Generate unique slug
+    // Generate unique slug; it is also the default dossier prefix, so it
+    // must not match another company's prefix or dossier numbers
+    const slugTaken = async (slug: string) =>
+      !!(await prisma.company.findFirst({ where: { slug } })) ||
+      isDossierPrefixTaken(prisma, slug.toUpperCase());
     let slug = generateSlug(data.companyName);
-    let slugExists = await prisma.company.findUnique({ where: { slug } });
+    let slugExists = await slugTaken(slug);
     let counter = 1;
     while (slugExists) {
       slug = `${generateSlug(data.companyName)}-${counter}`;
-      slugExists = await prisma.company.findUnique({ where: { slug } });
+      slugExists = await slugTaken(slug);
       counter++;
     }
 
@@ -192,6 +210,13 @@ router.post('/verify-email', async (req: Request, res: Response) => {
       });
     }
 
+    if (user.role === 'CLIENT') {
+      return res.status(400).json({
+        success: false,
+        message: 'Utilisez le lien d\'invitation pour activer votre accès',
+      });
+    }
+
     if (user.verificationCode !== code) {
       return res.status(400).json({
         success: false,
@@ -245,6 +270,7 @@ router.post('/verify-email', async (req: Request, res: Response) => {
           email: user.email,
           name: user.name,
           role: user.role,
+          clientId: user.clientId,
           company: {
             id: user.company.id,
             name: user.company.name,
@@ -278,7 +304,7 @@ router.post('/resend-code', async (req: Request, res: Response) => {
       include: { company: true },
     });
 
-    if (user && !user.emailVerified) {
+    if (user && !user.emailVerified && user.role !== 'CLIENT') {
       const code = generateVerificationCode();
       const codeExpiresAt = new Date(Date.now() + 15 * 60 * 1000);
 
@@ -300,6 +326,107 @@ router.post('/resend-code', async (req: Request, res: Response) => {
   }
 });
 
+// ============================================
+// POST /api/auth/accept-invite
+// ============================================
+
+router.post('/accept-invite', async (req: Request, res: Response) => {
+  try {
+    const { email, token, password } = acceptInviteSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.toLowerCase() },
+      include: { company: true },
+    });
+
+    if (!user || user.role !== 'CLIENT' || user.emailVerified || !user.verificationCode) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invitation invalide',
+      });
+    }
+
+    // A few wrong tokens revoke the invitation: it has to be sent again
+    if (user.verificationCode !== hashInvitationToken(token)) {
+      const revoke = user.failedAttempts + 1 >= MAX_INVITATION_ATTEMPTS;
+      await prisma.user.update({
+        where: { id: user.id },
+        data: revoke
+          ? { failedAttempts: 0, verificationCode: null, codeExpiresAt: null }
+          : { failedAttempts: { increment: 1 } },
+      });
+
+      return res.status(400).json({
+        success: false,
+        message: 'Invitation invalide',
+      });
+    }
+
+    if (user.codeExpiresAt && user.codeExpiresAt < new Date()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invitation expirée',
+      });
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 12);
+    const tokens = generateTokens(user.id, user.role, user.companyId);
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: {
+          password: hashedPassword,
+          emailVerified: true,
+          isActive: true,
+          verificationCode: null,
+          codeExpiresAt: null,
+          failedAttempts: 0,
+          lastLogin: new Date(),
+        },
+      }),
+      prisma.refreshToken.create({
+        data: {
+          token: tokens.refreshToken,
+          userId: user.id,
+          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+        },
+      }),
+    ]);
+
+    setAuthCookies(res, tokens);
+
+    log.audit('Invitation accepted', { userId: user.id, email: user.email, clientId: user.clientId });
+
+    res.json({
+      success: true,
+      data: {
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          clientId: user.clientId,
+          company: {
+            id: user.company.id,
+            name: user.company.name,
+          },
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Accept invite error', error);
+    res.status(500).json({ success: false, message: 'Erreur d\'activation' });
+  }
+});
+
 // ============================================
 // POST /api/auth/login
 // ============================================
@@ -329,6 +456,15 @@ router.post('/login', async (req: Request, res: Response) => {
       });
     }
 
+    // Invited client contacts activate through their invitation
+    if (!user.emailVerified && user.role === 'CLIENT') {
+      return res.status(403).json({
+        success: false,
+        message: 'Invitation non acceptée. Utilisez le lien reçu par email.',
+        code: 'INVITATION_PENDING',
+      });
+    }
+
     // Check email verified
     if (!user.emailVerified) {
       const code = generateVerificationCode();
@@ -411,6 +547,7 @@ router.post('/login', async (req: Request, res: Response) => {
           email: user.email,
           name: user.name,
           role: user.role,
+          clientId: user.clientId,
           company: {
             id: user.company.id,
             name: user.company.name,
@@ -518,6 +655,7 @@ router.get('/me', auth, async (req: Request, res: Response) => {
           name: user.name,
           phone: user.phone,
           role: user.role,
+          clientId: user.clientId,
           company: {
             id: user.company.id,
             name: user.company.name,
@@ -0,0 +1,454 @@
+// server/routes/clients.ts
+
+import { Router, Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { z } from 'zod';
+import { prisma } from '../config/prisma.js';
+import { log } from '../config/logger.js';
+import { auth, requireStaff, requireAgent, requireDirector } from '../middleware/auth.js';
+import { findClientByNif, normalizeNif } from '../services/client.service.js';
+import { generateInvitationToken, sendInvitationEmail } from '../services/email.service.js';
+
+const router = Router();
+router.use(auth);
+router.use(requireStaff);
+
+// Validation schemas
+const clientSchema = z.object({
+  name: z.string().min(1, 'Nom requis'),
+  nif: z.string().transform(normalizeNif).optional(),
+  phone: z.string().optional(),
+  email: z.string().email('Email invalide').optional(),
+  address: z.string().optional(),
+  city: z.string().optional(),
+  contactPerson: z.string().optional(),
+});
+
+const mergeSchema = z.object({
+  duplicateIds: z.array(z.string()).min(1),
+});
+
+const inviteSchema = z.object({
+  email: z.string().email('Email invalide'),
+  name: z.string().min(2, 'Nom requis'),
+  phone: z.string().optional(),
+});
+
+const INVITATION_TTL = 7 * 24 * 60 * 60 * 1000;
+
+// ============================================
+// GET /api/clients
+// ============================================
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { search, page = '1', limit = '20' } = req.query;
+    const pageNum = Math.max(1, parseInt(page as string));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = { companyId: req.user!.companyId };
+
+    if (search) {
+      where.OR = [
+        { name: { contains: search as string, mode: 'insensitive' } },
+        { nif: { contains: normalizeNif(search as string) } },
+        { phone: { contains: search as string } },
+        { contactPerson: { contains: search as string, mode: 'insensitive' } },
+      ];
+    }
+
+    const [clients, total] = await Promise.all([
+      prisma.client.findMany({
+        where,
+        include: { _count: { select: { shipments: true } } },
+        orderBy: { name: 'asc' },
+        skip,
+        take: limitNum,
+      }),
+      prisma.client.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        clients,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      },
+    });
+  } catch (error) {
+    log.error('Get clients error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// GET /api/clients/:id
+// ============================================
+
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const client = await prisma.client.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+      include: {
+        shipments: {
+          select: { id: true, trackingNumber: true, blNumber: true, status: true, createdAt: true },
+          orderBy: { createdAt: 'desc' },
+          take: 20,
+        },
+        _count: { select: { shipments: true } },
+      },
+    });
+
+    if (!client) {
+      return res.status(404).json({
+        success: false,
+        message: 'Client non trouvé',
+      });
+    }
+
+    res.json({ success: true, data: { client } });
+  } catch (error) {
+    log.error('Get client error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/clients
+// ============================================
+
+router.post('/', requireAgent, async (req: Request, res: Response) => {
+  try {
+    const data = clientSchema.parse(req.body);
+    const companyId = req.user!.companyId;
+
+    if (data.nif) {
+      const existing = await findClientByNif(companyId, data.nif);
+      if (existing) {
+        return res.status(409).json({
+          success: false,
+          message: `Un client existe déjà avec ce NIF: ${existing.name}`,
+          code: 'DUPLICATE_NIF',
+          data: { client: existing },
+        });
+      }
+    }
+
+    const client = await prisma.client.create({
+      data: { ...data, companyId },
+    });
+
+    log.audit('Client created', { clientId: client.id });
+
+    res.status(201).json({ success: true, data: { client } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Create client error', error);
+    res.status(500).json({ success: false, message: 'Erreur de création' });
+  }
+});
+
+// ============================================
+// PATCH /api/clients/:id
+// ============================================
+
+router.patch('/:id', requireAgent, async (req: Request, res: Response) => {
+  try {
+    const data = clientSchema.partial().strict().parse(req.body);
+    const companyId = req.user!.companyId;
+
+    const client = await prisma.client.findFirst({
+      where: { id: req.params.id, companyId },
+    });
+
+    if (!client) {
+      return res.status(404).json({
+        success: false,
+        message: 'Client non trouvé',
+      });
+    }
+
+    if (data.nif && data.nif !== client.nif) {
+      const existing = await findClientByNif(companyId, data.nif);
+      if (existing) {
+        return res.status(409).json({
+          success: false,
+          message: `Un client existe déjà avec ce NIF: ${existing.name}`,
+          code: 'DUPLICATE_NIF',
+          data: { client: existing },
+        });
+      }
+    }
+
+    const updated = await prisma.client.update({
+      where: { id: client.id },
+      data,
+    });
+
+    log.audit('Client updated', { clientId: client.id });
+
+    res.json({ success: true, data: { client: updated } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Update client error', error);
+    res.status(500).json({ success: false, message: 'Erreur de mise à jour' });
+  }
+});
+
+// ============================================
+// POST /api/clients/:id/merge
+// ============================================
+
+router.post('/:id/merge', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const { duplicateIds } = mergeSchema.parse(req.body);
+    const companyId = req.user!.companyId;
+
+    const canonical = await prisma.client.findFirst({
+      where: { id: req.params.id, companyId },
+    });
+
+    if (!canonical) {
+      return res.status(404).json({
+        success: false,
+        message: 'Client non trouvé',
+      });
+    }
+
+    const ids = duplicateIds.filter(id => id !== canonical.id);
+    const duplicates = await prisma.client.findMany({
+      where: { id: { in: ids }, companyId },
+    });
+
+    if (duplicates.length !== ids.length) {
+      return res.status(404).json({
+        success: false,
+        message: 'Client en double non trouvé',
+      });
+    }
+
+    // Fill gaps on the canonical record from the duplicates
+    const fill: Record<string, string> = {};
+    for (const field of ['nif', 'phone', 'email', 'address', 'city', 'contactPerson'] as const) {
+      if (!canonical[field]) {
+        const value = duplicates.find(d => d[field])?.[field];
+        if (value) fill[field] = value;
+      }
+    }
+
+    const [moved] = await prisma.$transaction([
+      prisma.shipment.updateMany({
+        where: { clientId: { in: ids }, companyId },
+        data: { clientId: canonical.id },
+      }),
+      prisma.invoice.updateMany({
+        where: { clientId: { in: ids }, companyId },
+        data: { clientId: canonical.id },
+      }),
+      prisma.clientPayment.updateMany({
+        where: { clientId: { in: ids }, companyId },
+        data: { clientId: canonical.id },
+      }),
+      prisma.feeSchedule.updateMany({
+        where: { clientId: { in: ids }, companyId },
+        data: { clientId: canonical.id },
+      }),
+      // Portal contacts of the duplicates keep their access
+      prisma.user.updateMany({
+        where: { clientId: { in: ids }, companyId },
+        data: { clientId: canonical.id },
+      }),
+      prisma.client.deleteMany({ where: { id: { in: ids }, companyId } }),
+      prisma.client.update({ where: { id: canonical.id }, data: fill }),
+      prisma.auditLog.create({
+        data: {
+          action: 'CLIENTS_MERGED',
+          entity: 'Client',
+          entityId: canonical.id,
+          details: { merged: duplicates.map(d => ({ id: d.id, name: d.name, nif: d.nif })) },
+          ipAddress: req.ip,
+          userAgent: req.get('user-agent'),
+          userId: req.user!.id,
+        },
+      }),
+    ]);
+
+    log.audit('Clients merged', { clientId: canonical.id, merged: ids.length, shipments: moved.count });
+
+    res.json({ success: true, data: { merged: ids.length, shipmentsMoved: moved.count } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Merge clients error', error);
+    res.status(500).json({ success: false, message: 'Erreur de fusion' });
+  }
+});
+
+// ============================================
+// GET /api/clients/:id/users
+// ============================================
+
+router.get('/:id/users', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const users = await prisma.user.findMany({
+      where: { clientId: req.params.id, companyId: req.user!.companyId, role: 'CLIENT' },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        phone: true,
+        isActive: true,
+        emailVerified: true,
+        lastLogin: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({ success: true, data: { users } });
+  } catch (error) {
+    log.error('Get client users error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/clients/:id/invite
+// ============================================
+
+router.post('/:id/invite', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const data = inviteSchema.parse(req.body);
+    const companyId = req.user!.companyId;
+    const email = data.email.toLowerCase();
+
+    const client = await prisma.client.findFirst({
+      where: { id: req.params.id, companyId },
+      include: { company: { select: { name: true } } },
+    });
+
+    if (!client) {
+      return res.status(404).json({
+        success: false,
+        message: 'Client non trouvé',
+      });
+    }
+
+    const existing = await prisma.user.findUnique({ where: { email } });
+
+    // A pending invitation for the same client is simply re-sent
+    if (existing && !(existing.clientId === client.id && !existing.emailVerified)) {
+      return res.status(409).json({
+        success: false,
+        message: 'Cet email est déjà utilisé',
+        code: 'EMAIL_IN_USE',
+      });
+    }
+
+    const { token, hash: verificationCode } = generateInvitationToken();
+    const codeExpiresAt = new Date(Date.now() + INVITATION_TTL);
+
+    const user = existing
+      ? await prisma.user.update({
+          where: { id: existing.id },
+          data: { name: data.name, phone: data.phone, verificationCode, codeExpiresAt, failedAttempts: 0 },
+        })
+      : await prisma.user.create({
+          data: {
+            email,
+            name: data.name,
+            phone: data.phone,
+            // Unusable until the invitation is accepted
+            password: await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 12),
+            role: 'CLIENT',
+            companyId,
+            clientId: client.id,
+            verificationCode,
+            codeExpiresAt,
+          },
+        });
+
+    await sendInvitationEmail(email, token, client.company.name, client.name);
+
+    log.audit('Client user invited', { clientId: client.id, userId: user.id, email });
+
+    res.status(existing ? 200 : 201).json({
+      success: true,
+      data: {
+        user: { id: user.id, email: user.email, name: user.name, expiresAt: codeExpiresAt },
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Invite client user error', error);
+    res.status(500).json({ success: false, message: 'Erreur d\'invitation' });
+  }
+});
+
+// ============================================
+// DELETE /api/clients/:id
+// ============================================
+
+router.delete('/:id', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const client = await prisma.client.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+      include: { _count: { select: { shipments: true, payments: true } } },
+    });
+
+    if (!client) {
+      return res.status(404).json({
+        success: false,
+        message: 'Client non trouvé',
+      });
+    }
+
+    if (client._count.shipments > 0 || client._count.payments > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Client lié à des dossiers ou encaissements: fusionnez-le plutôt',
+      });
+    }
+
+    await prisma.client.delete({ where: { id: client.id } });
+
+    log.audit('Client deleted', { clientId: client.id });
+
+    res.json({ success: true });
+  } catch (error) {
+    log.error('Delete client error', error);
+    res.status(500).json({ success: false, message: 'Erreur de suppression' });
+  }
+});
+
+export default router;
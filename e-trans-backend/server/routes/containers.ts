@@ -0,0 +1,58 @@
+// server/routes/containers.ts
+
+import { Router, Request, Response } from 'express';
+import { prisma } from '../config/prisma.js';
+import { log } from '../config/logger.js';
+import { auth, requireStaff } from '../middleware/auth.js';
+import { normalizeContainerNumber } from '../utils/iso6346.js';
+
+const router = Router();
+router.use(auth);
+router.use(requireStaff);
+
+// ============================================
+// GET /api/containers/lookup?number=
+// ============================================
+
+router.get('/lookup', async (req: Request, res: Response) => {
+  try {
+    const number = normalizeContainerNumber((req.query.number as string) || '');
+
+    if (number.length < 4) {
+      return res.status(400).json({
+        success: false,
+        message: 'Saisissez au moins 4 caractères du numéro',
+      });
+    }
+
+    const containers = await prisma.container.findMany({
+      where: {
+        number: { contains: number },
+        shipment: { companyId: req.user!.companyId },
+      },
+      include: {
+        shipment: {
+          select: {
+            id: true,
+            trackingNumber: true,
+            blNumber: true,
+            clientName: true,
+            status: true,
+            vesselName: true,
+            eta: true,
+            ata: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    });
+
+    res.json({ success: true, data: { containers } });
+  } catch (error) {
+    log.error('Container lookup error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+export default router;
@@ -0,0 +1,274 @@
+// server/routes/demurrage.ts
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../config/prisma.js';
+import { log } from '../config/logger.js';
+import { auth, requireStaff, requireAccountant } from '../middleware/auth.js';
+import { projectContainer, projectShipment, tiersSchema } from '../services/demurrage.service.js';
+import { syncGeneratedExpenses } from '../services/expense.service.js';
+
+const router = Router();
+router.use(auth);
+router.use(requireStaff);
+
+// Validation schemas
+const ruleSchema = z.object({
+  kind: z.enum(['DEMURRAGE', 'DETENTION', 'STORAGE']),
+  shippingLine: z.string().trim().toUpperCase().nullable().optional(),
+  containerType: z.enum([
+    'DRY_20', 'DRY_40', 'DRY_40HC', 'REEFER_20', 'REEFER_40', 'REEFER_40HR',
+    'OPEN_TOP_20', 'OPEN_TOP_40', 'FLAT_RACK_20', 'FLAT_RACK_40',
+  ]).nullable().optional(),
+  freeDays: z.number().int().min(0),
+  tiers: tiersSchema,
+  notes: z.string().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// GET /api/demurrage/rules
+// ============================================
+
+router.get('/rules', async (req: Request, res: Response) => {
+  try {
+    const rules = await prisma.freeTimeRule.findMany({
+      where: { companyId: req.user!.companyId },
+      orderBy: [{ kind: 'asc' }, { shippingLine: 'asc' }],
+    });
+
+    res.json({ success: true, data: { rules } });
+  } catch (error) {
+    log.error('Get free time rules error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/demurrage/rules
+// ============================================
+
+router.post('/rules', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const data = ruleSchema.parse(req.body);
+
+    const rule = await prisma.freeTimeRule.create({
+      data: { ...data, companyId: req.user!.companyId },
+    });
+
+    log.audit('Free time rule created', { ruleId: rule.id, kind: rule.kind });
+
+    res.status(201).json({ success: true, data: { rule } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Create free time rule error', error);
+    res.status(500).json({ success: false, message: 'Erreur de création' });
+  }
+});
+
+// ============================================
+// PATCH /api/demurrage/rules/:id
+// ============================================
+
+router.patch('/rules/:id', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const data = ruleSchema.partial().parse(req.body);
+
+    const rule = await prisma.freeTimeRule.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+    });
+
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Règle non trouvée',
+      });
+    }
+
+    const updated = await prisma.freeTimeRule.update({
+      where: { id: rule.id },
+      data,
+    });
+
+    log.audit('Free time rule updated', { ruleId: rule.id });
+
+    res.json({ success: true, data: { rule: updated } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Update free time rule error', error);
+    res.status(500).json({ success: false, message: 'Erreur de mise à jour' });
+  }
+});
+
+// ============================================
+// DELETE /api/demurrage/rules/:id
+// ============================================
+
+router.delete('/rules/:id', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const rule = await prisma.freeTimeRule.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+    });
+
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Règle non trouvée',
+      });
+    }
+
+    await prisma.freeTimeRule.delete({ where: { id: rule.id } });
+
+    log.audit('Free time rule deleted', { ruleId: rule.id });
+
+    res.json({ success: true });
+  } catch (error) {
+    log.error('Delete free time rule error', error);
+    res.status(500).json({ success: false, message: 'Erreur de suppression' });
+  }
+});
+
+// ============================================
+// GET /api/demurrage/alerts?days=3
+// ============================================
+
+router.get('/alerts', async (req: Request, res: Response) => {
+  try {
+    const companyId = req.user!.companyId;
+    const requested = parseInt(req.query.days as string);
+    const days = isNaN(requested) ? 3 : Math.min(60, Math.max(0, requested));
+    const now = new Date();
+    const horizon = new Date(now.getTime() + days * DAY_MS);
+
+    const [rules, containers] = await Promise.all([
+      prisma.freeTimeRule.findMany({ where: { companyId, isActive: true } }),
+      prisma.container.findMany({
+        where: {
+          status: { not: 'EMPTY_RETURNED' },
+          shipment: { companyId, status: { notIn: ['CLOSED', 'ARCHIVED'] } },
+        },
+        include: {
+          shipment: { select: { id: true, trackingNumber: true, clientName: true, shippingLine: true, ata: true } },
+        },
+      }),
+    ]);
+
+    const alerts = containers.flatMap(container => {
+      const projection = projectContainer(container, container.shipment, rules, now);
+      return projection.charges
+        .filter(c => c.running && new Date(c.freeTimeEndsAt) <= horizon)
+        .map(c => ({
+          containerId: container.id,
+          number: container.number,
+          shipment: container.shipment,
+          kind: c.kind,
+          freeTimeEndsAt: c.freeTimeEndsAt,
+          accruing: new Date(c.freeTimeEndsAt) <= now,
+          chargeableDays: c.chargeableDays,
+          amountToDate: c.amount,
+        }));
+    });
+
+    alerts.sort((a, b) => a.freeTimeEndsAt.localeCompare(b.freeTimeEndsAt));
+
+    res.json({ success: true, data: { days, alerts } });
+  } catch (error) {
+    log.error('Get demurrage alerts error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// GET /api/demurrage/shipments/:id
+// ============================================
+
+router.get('/shipments/:id', async (req: Request, res: Response) => {
+  try {
+    const companyId = req.user!.companyId;
+    const asOf = req.query.asOf ? new Date(req.query.asOf as string) : new Date();
+
+    if (isNaN(asOf.getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: 'Date invalide',
+      });
+    }
+
+    const [shipment, rules] = await Promise.all([
+      prisma.shipment.findFirst({
+        where: { id: req.params.id, companyId },
+        include: { containers: true },
+      }),
+      prisma.freeTimeRule.findMany({ where: { companyId, isActive: true } }),
+    ]);
+
+    if (!shipment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Dossier non trouvé',
+      });
+    }
+
+    res.json({ success: true, data: { projection: projectShipment(shipment, rules, asOf) } });
+  } catch (error) {
+    log.error('Get demurrage projection error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/demurrage/shipments/:id/apply
+// ============================================
+
+router.post('/shipments/:id/apply', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const companyId = req.user!.companyId;
+
+    const [shipment, rules] = await Promise.all([
+      prisma.shipment.findFirst({
+        where: { id: req.params.id, companyId },
+        include: { containers: true },
+      }),
+      prisma.freeTimeRule.findMany({ where: { companyId, isActive: true } }),
+    ]);
+
+    if (!shipment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Dossier non trouvé',
+      });
+    }
+
+    const projection = projectShipment(shipment, rules);
+
+    const result = await prisma.$transaction(tx =>
+      syncGeneratedExpenses(tx, shipment.id, 'DEMURRAGE', [
+        { category: 'SURESTARIES', description: 'Surestaries conteneurs', amount: projection.byCategory.SURESTARIES || 0 },
+        { category: 'MAGASINAGE', description: 'Magasinage terminal', amount: projection.byCategory.MAGASINAGE || 0 },
+      ])
+    );
+
+    log.audit('Demurrage applied', { shipmentId: shipment.id, total: projection.total });
+
+    res.json({ success: true, data: { projection, expenses: result } });
+  } catch (error) {
+    log.error('Apply demurrage error', error);
+    res.status(500).json({ success: false, message: 'Erreur de calcul' });
+  }
+});
+
+export default router;
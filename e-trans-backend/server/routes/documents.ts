@@ -0,0 +1,37 @@
+// server/routes/documents.ts
+
+import { Router, Request, Response } from 'express';
+import { log } from '../config/logger.js';
+import { auth, requireStaff } from '../middleware/auth.js';
+import { findExpiringDocuments } from '../services/document.service.js';
+
+const router = Router();
+router.use(auth);
+router.use(requireStaff);
+
+// ============================================
+// GET /api/documents/expiring?days=30
+// ============================================
+
+router.get('/expiring', async (req: Request, res: Response) => {
+  try {
+    const requested = parseInt(req.query.days as string);
+    const days = isNaN(requested) ? 30 : Math.min(365, Math.max(0, requested));
+    const documents = await findExpiringDocuments(req.user!.companyId, days);
+
+    res.json({
+      success: true,
+      data: {
+        days,
+        expired: documents.filter(d => d.expired).length,
+        expiring: documents.filter(d => !d.expired).length,
+        documents,
+      },
+    });
+  } catch (error) {
+    log.error('Get expiring documents error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+export default router;
@@ -0,0 +1,212 @@
+// server/routes/exchange-rates.ts
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../config/prisma.js';
+import { log } from '../config/logger.js';
+import { auth, requireStaff, requireDirector } from '../middleware/auth.js';
+import { BASE_CURRENCY, findRate, parseRateCsv } from '../services/exchange-rate.service.js';
+
+const router = Router();
+router.use(auth);
+router.use(requireStaff);
+
+// Validation schemas
+const rateSchema = z.object({
+  currency: z.string().length(3).toUpperCase().refine(c => c !== BASE_CURRENCY, 'Devise de base'),
+  date: z.string().refine(v => !isNaN(Date.parse(v)), 'Date invalide'),
+  rate: z.number().positive(),
+  source: z.string().toUpperCase().optional(),
+});
+
+const importSchema = z.object({
+  content: z.string().min(1, 'Fichier vide'),
+  fileName: z.string().optional(),
+});
+
+// ============================================
+// GET /api/exchange-rates
+// ============================================
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { currency, page = '1', limit = '50' } = req.query;
+    const pageNum = Math.max(1, parseInt(page as string));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = { companyId: req.user!.companyId };
+    if (currency) where.currency = (currency as string).toUpperCase();
+
+    const [rates, total] = await Promise.all([
+      prisma.exchangeRate.findMany({
+        where,
+        orderBy: [{ date: 'desc' }, { currency: 'asc' }],
+        skip,
+        take: limitNum,
+      }),
+      prisma.exchangeRate.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        rates,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      },
+    });
+  } catch (error) {
+    log.error('Get exchange rates error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// GET /api/exchange-rates/lookup?currency=&date=
+// ============================================
+
+router.get('/lookup', async (req: Request, res: Response) => {
+  try {
+    const currency = ((req.query.currency as string) || '').toUpperCase();
+    const date = req.query.date ? new Date(req.query.date as string) : new Date();
+
+    if (!currency || isNaN(date.getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: 'Devise et date valides requises',
+      });
+    }
+
+    const rate = await findRate(req.user!.companyId, currency, date);
+
+    if (!rate) {
+      return res.status(404).json({
+        success: false,
+        message: `Aucun taux ${currency} en vigueur à cette date`,
+        code: 'EXCHANGE_RATE_NOT_FOUND',
+      });
+    }
+
+    res.json({ success: true, data: { currency, ...rate } });
+  } catch (error) {
+    log.error('Lookup exchange rate error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/exchange-rates
+// ============================================
+
+router.post('/', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const data = rateSchema.parse(req.body);
+    const companyId = req.user!.companyId;
+    const date = new Date(data.date);
+
+    const rate = await prisma.exchangeRate.upsert({
+      where: { companyId_currency_date: { companyId, currency: data.currency, date } },
+      update: { rate: data.rate, source: data.source, createdById: req.user!.id },
+      create: {
+        companyId,
+        currency: data.currency,
+        date,
+        rate: data.rate,
+        source: data.source,
+        createdById: req.user!.id,
+      },
+    });
+
+    log.audit('Exchange rate recorded', { currency: rate.currency, date: rate.date, rate: rate.rate });
+
+    res.status(201).json({ success: true, data: { rate } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Create exchange rate error', error);
+    res.status(500).json({ success: false, message: 'Erreur de création' });
+  }
+});
+
+// ============================================
+// POST /api/exchange-rates/import
+// ============================================
+
+router.post('/import', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const data = importSchema.parse(req.body);
+    const companyId = req.user!.companyId;
+    const { rows, errors } = parseRateCsv(data.content);
+
+    if (errors.length > 0) {
+      return res.status(422).json({
+        success: false,
+        message: `${errors.length} ligne(s) invalide(s)`,
+        code: 'IMPORT_INVALID_ROWS',
+        errors,
+      });
+    }
+
+    await prisma.$transaction(rows.map(row =>
+      prisma.exchangeRate.upsert({
+        where: { companyId_currency_date: { companyId, currency: row.currency, date: row.date } },
+        update: { rate: row.rate, source: row.source, createdById: req.user!.id },
+        create: { ...row, companyId, createdById: req.user!.id },
+      })
+    ));
+
+    log.audit('Exchange rates imported', { companyId, count: rows.length, fileName: data.fileName });
+
+    res.json({ success: true, data: { imported: rows.length } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Import exchange rates error', error);
+    res.status(500).json({ success: false, message: 'Erreur d\'import' });
+  }
+});
+
+// ============================================
+// DELETE /api/exchange-rates/:id
+// ============================================
+
+router.delete('/:id', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const rate = await prisma.exchangeRate.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+    });
+
+    if (!rate) {
+      return res.status(404).json({
+        success: false,
+        message: 'Taux non trouvé',
+      });
+    }
+
+    await prisma.exchangeRate.delete({ where: { id: rate.id } });
+
+    log.audit('Exchange rate deleted', { currency: rate.currency, date: rate.date });
+
+    res.json({ success: true });
+  } catch (error) {
+    log.error('Delete exchange rate error', error);
+    res.status(500).json({ success: false, message: 'Erreur de suppression' });
+  }
+});
+
+export default router;
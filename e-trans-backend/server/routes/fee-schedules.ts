@@ -0,0 +1,422 @@
+// server/routes/fee-schedules.ts
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../config/prisma.js';
+import { log } from '../config/logger.js';
+import { auth, requireStaff, requireAccountant } from '../middleware/auth.js';
+import { syncGeneratedExpenses } from '../services/expense.service.js';
+import {
+  FEE_SCHEDULE_SOURCE,
+  computeFees,
+  containerRatesSchema,
+  feeExpenseLines,
+  loadSchedules,
+  resolveItems,
+} from '../services/fee-schedule.service.js';
+
+const router = Router();
+router.use(auth);
+router.use(requireStaff);
+
+// Validation schemas
+const itemSchema = z.object({
+  category: z.enum([
+    'DD', 'TVA', 'RTL', 'PC', 'CA', 'BFU', 'ACCISE', 'DROIT_SORTIE', 'DDI_FEE',
+    'ACCONAGE', 'BRANCHEMENT', 'SURESTARIES', 'MANUTENTION', 'PASSAGE_TERRE', 'RELEVAGE', 'SECURITE_TERMINAL',
+    'DO_FEE', 'SEAWAY_BILL', 'MANIFEST_FEE', 'CONTAINER_DAMAGE', 'SECURITE_MSC', 'SURCHARGE', 'PAC', 'ADP_FEE',
+    'TRANSPORT', 'TRANSPORT_ADD', 'HONORAIRES', 'COMMISSION', 'ASSURANCE', 'MAGASINAGE', 'SCANNER', 'ESCORTE', 'AUTRE',
+  ]),
+  description: z.string().min(1),
+  basis: z.enum(['FLAT', 'PER_CONTAINER', 'PER_TONNE', 'CIF_PERCENT']),
+  rate: z.number().min(0),
+  containerRates: containerRatesSchema.nullable().optional(),
+  minAmount: z.number().min(0).nullable().optional(),
+  maxAmount: z.number().min(0).nullable().optional(),
+}).refine(i => i.basis !== 'CIF_PERCENT' || i.rate <= 100, {
+  message: 'Pourcentage compris entre 0 et 100',
+  path: ['rate'],
+}).refine(i => i.minAmount == null || i.maxAmount == null || i.minAmount <= i.maxAmount, {
+  message: 'Minimum supérieur au maximum',
+  path: ['maxAmount'],
+});
+
+const scheduleFields = {
+  name: z.string().trim().min(1),
+  isDefault: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+  notes: z.string().nullable().optional(),
+  items: z.array(itemSchema).min(1),
+};
+
+const createScheduleSchema = z.object({
+  ...scheduleFields,
+  clientId: z.string().nullable().optional(),
+}).refine(s => !s.clientId || !s.isDefault, {
+  message: 'Un tarif client ne peut pas être le barème par défaut',
+  path: ['isDefault'],
+});
+
+const updateScheduleSchema = z.object(scheduleFields).partial();
+
+const applySchema = z.object({
+  scheduleId: z.string().optional(),
+});
+
+const scheduleInclude = {
+  items: { orderBy: { position: 'asc' } },
+  client: { select: { id: true, name: true } },
+} as const;
+
+// Loads the shipment and works out its fee lines
+const priceShipment = async (companyId: string, shipmentId: string, scheduleId?: string) => {
+  const shipment = await prisma.shipment.findFirst({
+    where: { id: shipmentId, companyId },
+    include: { containers: { select: { type: true, grossWeight: true } } },
+  });
+  if (!shipment) return null;
+
+  const { base, clientSchedules } = await loadSchedules(companyId, shipment.clientId, scheduleId);
+  if (scheduleId && !base) return { shipment, scheduleMissing: true as const };
+
+  const fees = computeFees(resolveItems(base, clientSchedules), shipment);
+
+  return {
+    shipment,
+    scheduleMissing: false as const,
+    schedules: [...(base ? [base] : []), ...clientSchedules].map(s => ({ id: s.id, name: s.name, clientId: s.clientId })),
+    fees,
+    total: fees.reduce((sum, f) => sum + f.amount, 0),
+  };
+};
+
+// ============================================
+// GET /api/fee-schedules?clientId=
+// ============================================
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { clientId } = req.query;
+
+    const schedules = await prisma.feeSchedule.findMany({
+      where: {
+        companyId: req.user!.companyId,
+        ...(clientId && { clientId: clientId === 'none' ? null : clientId as string }),
+      },
+      include: scheduleInclude,
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+    });
+
+    res.json({ success: true, data: { schedules } });
+  } catch (error) {
+    log.error('Get fee schedules error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// GET /api/fee-schedules/:id
+// ============================================
+
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const schedule = await prisma.feeSchedule.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+      include: scheduleInclude,
+    });
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Barème non trouvé',
+      });
+    }
+
+    res.json({ success: true, data: { schedule } });
+  } catch (error) {
+    log.error('Get fee schedule error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/fee-schedules
+// ============================================
+
+router.post('/', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const { items, ...data } = createScheduleSchema.parse(req.body);
+    const companyId = req.user!.companyId;
+
+    const [duplicate, client] = await Promise.all([
+      prisma.feeSchedule.findFirst({ where: { companyId, name: data.name } }),
+      data.clientId ? prisma.client.findFirst({ where: { id: data.clientId, companyId } }) : null,
+    ]);
+
+    if (duplicate) {
+      return res.status(409).json({
+        success: false,
+        message: 'Un barème porte déjà ce nom',
+      });
+    }
+
+    if (data.clientId && !client) {
+      return res.status(404).json({
+        success: false,
+        message: 'Client non trouvé',
+      });
+    }
+
+    const schedule = await prisma.$transaction(async (tx) => {
+      // Only one company schedule is the default
+      if (data.isDefault) {
+        await tx.feeSchedule.updateMany({ where: { companyId, isDefault: true }, data: { isDefault: false } });
+      }
+
+      return tx.feeSchedule.create({
+        data: {
+          ...data,
+          companyId,
+          items: { create: items.map((item, position) => ({ ...item, containerRates: item.containerRates ?? undefined, position })) },
+        },
+        include: scheduleInclude,
+      });
+    });
+
+    log.audit('Fee schedule created', { scheduleId: schedule.id, name: schedule.name, clientId: schedule.clientId });
+
+    res.status(201).json({ success: true, data: { schedule } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Create fee schedule error', error);
+    res.status(500).json({ success: false, message: 'Erreur de création' });
+  }
+});
+
+// ============================================
+// PATCH /api/fee-schedules/:id
+// ============================================
+
+// `items`, when given, replaces every line of the schedule
+router.patch('/:id', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const { items, ...data } = updateScheduleSchema.parse(req.body);
+    const companyId = req.user!.companyId;
+
+    const schedule = await prisma.feeSchedule.findFirst({
+      where: { id: req.params.id, companyId },
+    });
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Barème non trouvé',
+      });
+    }
+
+    if (data.isDefault && schedule.clientId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Un tarif client ne peut pas être le barème par défaut',
+      });
+    }
+
+    if (data.name && data.name !== schedule.name) {
+      const duplicate = await prisma.feeSchedule.findFirst({ where: { companyId, name: data.name } });
+      if (duplicate) {
+        return res.status(409).json({
+          success: false,
+          message: 'Un barème porte déjà ce nom',
+        });
+      }
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.feeSchedule.updateMany({
+          where: { companyId, isDefault: true, id: { not: schedule.id } },
+          data: { isDefault: false },
+        });
+      }
+
+      if (items) {
+        await tx.feeScheduleItem.deleteMany({ where: { scheduleId: schedule.id } });
+      }
+
+      return tx.feeSchedule.update({
+        where: { id: schedule.id },
+        data: {
+          ...data,
+          ...(items && {
+            items: { create: items.map((item, position) => ({ ...item, containerRates: item.containerRates ?? undefined, position })) },
+          }),
+        },
+        include: scheduleInclude,
+      });
+    });
+
+    log.audit('Fee schedule updated', { scheduleId: schedule.id });
+
+    res.json({ success: true, data: { schedule: updated } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Update fee schedule error', error);
+    res.status(500).json({ success: false, message: 'Erreur de mise à jour' });
+  }
+});
+
+// ============================================
+// DELETE /api/fee-schedules/:id
+// ============================================
+
+// Expenses already generated from the schedule are kept
+router.delete('/:id', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const schedule = await prisma.feeSchedule.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+    });
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Barème non trouvé',
+      });
+    }
+
+    await prisma.feeSchedule.delete({ where: { id: schedule.id } });
+
+    log.audit('Fee schedule deleted', { scheduleId: schedule.id, name: schedule.name });
+
+    res.json({ success: true });
+  } catch (error) {
+    log.error('Delete fee schedule error', error);
+    res.status(500).json({ success: false, message: 'Erreur de suppression' });
+  }
+});
+
+// ============================================
+// GET /api/fee-schedules/shipments/:id?scheduleId=
+// ============================================
+
+router.get('/shipments/:id', async (req: Request, res: Response) => {
+  try {
+    const priced = await priceShipment(req.user!.companyId, req.params.id, req.query.scheduleId as string | undefined);
+
+    if (!priced) {
+      return res.status(404).json({
+        success: false,
+        message: 'Dossier non trouvé',
+      });
+    }
+
+    if (priced.scheduleMissing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Barème non trouvé',
+      });
+    }
+
+    const { shipment, scheduleMissing, ...preview } = priced;
+    res.json({ success: true, data: preview });
+  } catch (error) {
+    log.error('Get fee schedule preview error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/fee-schedules/shipments/:id/apply
+// ============================================
+
+// Re-applying updates the generated lines in place; paid or invoiced ones
+// are left alone and reported in `expenses.skipped`
+router.post('/shipments/:id/apply', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const { scheduleId } = applySchema.parse(req.body);
+    const priced = await priceShipment(req.user!.companyId, req.params.id, scheduleId);
+
+    if (!priced) {
+      return res.status(404).json({
+        success: false,
+        message: 'Dossier non trouvé',
+      });
+    }
+
+    if (priced.scheduleMissing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Barème non trouvé',
+      });
+    }
+
+    const { shipment, schedules, fees, total } = priced;
+
+    if (schedules.length === 0) {
+      return res.status(422).json({
+        success: false,
+        message: 'Aucun barème applicable à ce dossier',
+        code: 'NO_FEE_SCHEDULE',
+      });
+    }
+
+    // Lines priced on missing data would wipe what was generated before
+    const incomplete = fees.filter(f => f.missing);
+    if (incomplete.length > 0) {
+      return res.status(422).json({
+        success: false,
+        message: `Données du dossier manquantes : ${[...new Set(incomplete.map(f => f.missing))].join(', ')}`,
+        code: 'FEE_SCHEDULE_INCOMPLETE',
+        fees: incomplete,
+      });
+    }
+
+    const expenses = await prisma.$transaction(async (tx) => {
+      const result = await syncGeneratedExpenses(tx, shipment.id, FEE_SCHEDULE_SOURCE, feeExpenseLines(fees));
+
+      await tx.timelineEvent.create({
+        data: {
+          shipmentId: shipment.id,
+          action: 'Barème appliqué',
+          description: `${schedules.map(s => s.name).join(', ')} : ${total.toLocaleString('fr-FR')} GNF`,
+          userId: req.user!.id,
+          userName: req.user!.name,
+        },
+      });
+
+      return result;
+    });
+
+    log.audit('Fee schedule applied', {
+      shipmentId: shipment.id,
+      schedules: schedules.map(s => s.id),
+      total,
+      skipped: expenses.skipped,
+    });
+
+    res.json({ success: true, data: { schedules, fees, total, expenses } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Apply fee schedule error', error);
+    res.status(500).json({ success: false, message: 'Erreur de calcul' });
+  }
+});
+
+export default router;
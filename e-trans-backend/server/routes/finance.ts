@@ -1,13 +1,20 @@
 // server/routes/finance.ts
 
 import { Router, Request, Response } from 'express';
+import { ExpenseCategory } from '@prisma/client';
 import { z } from 'zod';
 import { prisma } from '../config/prisma.js';
 import { log } from '../config/logger.js';
-import { auth, requireAccountant } from '../middleware/auth.js';
+import { auth, requireStaff, requireAccountant } from '../middleware/auth.js';
+import { projectShipment } from '../services/demurrage.service.js';
+import { TreasuryError, postMovement } from '../services/treasury.service.js';
+import { isExpenseLocked } from '../services/accounting.service.js';
+import { invoicedExpenseIds } from '../services/expense.service.js';
+import { PROFITABILITY_GROUPINGS, buildProfitabilityReport } from '../services/profitability.service.js';
 
 const router = Router();
 router.use(auth);
+router.use(requireStaff);
 
 // Validation schemas
 const createExpenseSchema = z.object({
@@ -22,6 +29,30 @@ const createExpenseSchema = z.object({
   supplier: z.string().optional(),
 });
 
+// Payment goes through /pay so that it posts to a treasury account
+const updateExpenseSchema = z.object({
+  type: z.enum(['PROVISION', 'DISBURSEMENT']),
+  category: z.nativeEnum(ExpenseCategory),
+  description: z.string().min(1),
+  amount: z.number().positive(),
+  reference: z.string().nullable(),
+}).partial().strict();
+
+const payExpenseSchema = z.object({
+  accountId: z.string({ required_error: 'Compte de trésorerie requis' }),
+});
+
+const queryDate = z.string().transform(s => new Date(s)).refine(d => !isNaN(d.getTime()), 'Date invalide');
+
+const profitabilitySchema = z.object({
+  groupBy: z.enum(PROFITABILITY_GROUPINGS).default('shipment'),
+  from: queryDate.optional(),
+  to: queryDate.optional(),
+  regime: z.enum(['IM4', 'IM5', 'IM6', 'IM7', 'EX1', 'EX2', 'TR']).optional(),
+  clientId: z.string().optional(),
+  agentId: z.string().optional(),
+});
+
 // ============================================
 // GET /api/finance/expenses
 // ============================================
@@ -117,16 +148,48 @@ router.get('/summary', async (req: Request, res: Response) => {
   }
 });
 
+// ============================================
+// GET /api/finance/profitability
+// ============================================
+
+router.get('/profitability', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const { groupBy, from, to, ...filters } = profitabilitySchema.parse(req.query);
+
+    const report = await buildProfitabilityReport(req.user!.companyId, groupBy, {
+      ...filters,
+      from,
+      // `to` is a day: include all of it
+      to: to && new Date(to.getTime() + 24 * 60 * 60 * 1000 - 1),
+    });
+
+    res.json({ success: true, data: { from, to, ...filters, ...report } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Profitability report error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
 // ============================================
 // GET /api/finance/shipment/:shipmentId
 // ============================================
 
 router.get('/shipment/:shipmentId', async (req: Request, res: Response) => {
   try {
-    const shipment = await prisma.shipment.findFirst({
-      where: { id: req.params.shipmentId, companyId: req.user!.companyId },
-      include: { expenses: true },
-    });
+    const [shipment, rules] = await Promise.all([
+      prisma.shipment.findFirst({
+        where: { id: req.params.shipmentId, companyId: req.user!.companyId },
+        include: { expenses: true, containers: true },
+      }),
+      prisma.freeTimeRule.findMany({ where: { companyId: req.user!.companyId, isActive: true } }),
+    ]);
 
     if (!shipment) {
       return res.status(404).json({
@@ -156,6 +219,7 @@ router.get('/shipment/:shipmentId', async (req: Request, res: Response) => {
         paid,
         unpaid: disbursements - paid,
         balance: provisions - paid,
+        projectedDemurrage: projectShipment(shipment, rules).total,
         expenses: shipment.expenses,
       },
     });
@@ -221,6 +285,8 @@ router.post('/expenses', requireAccountant, async (req: Request, res: Response)
 
 router.patch('/expenses/:id', requireAccountant, async (req: Request, res: Response) => {
   try {
+    const data = updateExpenseSchema.parse(req.body);
+
     const expense = await prisma.expense.findFirst({
       where: {
         id: req.params.id,
@@ -235,22 +301,58 @@ router.patch('/expenses/:id', requireAccountant, async (req: Request, res: Respo
       });
     }
 
-    const updateData: any = { ...req.body };
-    
-    // If marking as paid, set paidAt
-    if (req.body.paid === true && !expense.paid) {
-      updateData.paidAt = new Date();
+    if (await isExpenseLocked(expense.id)) {
+      return res.status(409).json({
+        success: false,
+        message: 'Paiement déjà exporté en comptabilité : dépense verrouillée',
+        code: 'ENTRY_LOCKED',
+      });
+    }
+
+    // Provisions posted by a client receipt follow their allocation
+    if (expense.source === 'PAYMENT') {
+      return res.status(409).json({
+        success: false,
+        message: 'Provision issue d\'un encaissement : modifiez l\'imputation',
+        code: 'PAYMENT_PROVISION',
+      });
+    }
+
+    if ((await invoicedExpenseIds(prisma, [expense.id])).size > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Dépense portée sur une facture émise : annulez d\'abord la facture par un avoir',
+        code: 'EXPENSE_INVOICED',
+      });
+    }
+
+    // The treasury movement was posted for this amount and direction
+    const amountChanged = data.amount !== undefined && data.amount !== expense.amount;
+    const typeChanged = data.type !== undefined && data.type !== expense.type;
+    if (expense.paid && (amountChanged || typeChanged)) {
+      return res.status(409).json({
+        success: false,
+        message: 'Dépense payée : montant et type ne sont plus modifiables',
+        code: 'EXPENSE_PAID',
+      });
     }
 
     const updated = await prisma.expense.update({
       where: { id: expense.id },
-      data: updateData,
+      data,
     });
 
     log.audit('Expense updated', { expenseId: expense.id });
 
     res.json({ success: true, data: { expense: updated } });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
     log.error('Update expense error', error);
     res.status(500).json({ success: false, message: 'Erreur de mise à jour' });
   }
@@ -262,6 +364,8 @@ router.patch('/expenses/:id', requireAccountant, async (req: Request, res: Respo
 
 router.post('/expenses/:id/pay', requireAccountant, async (req: Request, res: Response) => {
   try {
+    const { accountId } = payExpenseSchema.parse(req.body);
+
     const expense = await prisma.expense.findFirst({
       where: {
         id: req.params.id,
@@ -284,6 +388,15 @@ router.post('/expenses/:id/pay', requireAccountant, async (req: Request, res: Re
       });
     }
 
+    // The receipt already posted the cash to treasury
+    if (expense.source === 'PAYMENT') {
+      return res.status(409).json({
+        success: false,
+        message: 'Provision issue d\'un encaissement : déjà enregistrée en trésorerie',
+        code: 'PAYMENT_PROVISION',
+      });
+    }
+
     // Check balance for disbursements
     if (expense.type === 'DISBURSEMENT') {
       let provisions = 0;
@@ -307,15 +420,41 @@ router.post('/expenses/:id/pay', requireAccountant, async (req: Request, res: Re
       }
     }
 
-    const updated = await prisma.expense.update({
-      where: { id: expense.id },
-      data: { paid: true, paidAt: new Date() },
+    const paidAt = new Date();
+    const updated = await prisma.$transaction(async (tx) => {
+      // Provisions come into the account, disbursements go out of it
+      await postMovement(tx, {
+        accountId,
+        companyId: req.user!.companyId,
+        type: 'EXPENSE_PAYMENT',
+        amount: expense.type === 'PROVISION' ? expense.amount : -expense.amount,
+        label: `${expense.description} - ${expense.shipment.trackingNumber}`,
+        date: paidAt,
+        reference: expense.reference,
+        expenseId: expense.id,
+        createdById: req.user!.id,
+      });
+
+      return tx.expense.update({
+        where: { id: expense.id },
+        data: { paid: true, paidAt, paidBy: req.user!.name },
+      });
     });
 
-    log.audit('Expense paid', { expenseId: expense.id, amount: expense.amount });
+    log.audit('Expense paid', { expenseId: expense.id, amount: expense.amount, accountId });
 
     res.json({ success: true, data: { expense: updated } });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    if (error instanceof TreasuryError) {
+      return res.status(error.status).json({ success: false, message: error.message, code: error.code });
+    }
     log.error('Pay expense error', error);
     res.status(500).json({ success: false, message: 'Erreur de paiement' });
   }
@@ -341,6 +480,15 @@ router.delete('/expenses/:id', requireAccountant, async (req: Request, res: Resp
       });
     }
 
+    // Provisions posted by a client receipt go away with their allocation
+    if (expense.source === 'PAYMENT') {
+      return res.status(409).json({
+        success: false,
+        message: 'Provision issue d\'un encaissement : supprimez l\'imputation',
+        code: 'PAYMENT_PROVISION',
+      });
+    }
+
     if (expense.paid) {
       return res.status(400).json({
         success: false,
@@ -348,6 +496,14 @@ router.delete('/expenses/:id', requireAccountant, async (req: Request, res: Resp
       });
     }
 
+    if ((await invoicedExpenseIds(prisma, [expense.id])).size > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Dépense portée sur une facture émise : annulez d\'abord la facture par un avoir',
+        code: 'EXPENSE_INVOICED',
+      });
+    }
+
     await prisma.expense.delete({ where: { id: expense.id } });
 
     log.audit('Expense deleted', { expenseId: expense.id });
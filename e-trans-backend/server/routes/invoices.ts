@@ -0,0 +1,753 @@
+// server/routes/invoices.ts
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { log } from '../config/logger.js';
+import { auth, requireStaff, requireAccountant } from '../middleware/auth.js';
+import { checkTransition, transitionHttpStatus } from '../services/workflow.service.js';
+import { loadChecklist } from '../services/checklist.service.js';
+import {
+  PAYMENT_TERM_DAYS,
+  allocateInvoiceNumber,
+  buildInvoiceDraft,
+  manualFees,
+} from '../services/invoice.service.js';
+import { AllocationError, allocatePayment, allocateReceiptNumber } from '../services/receivable.service.js';
+import { TreasuryError, postMovement } from '../services/treasury.service.js';
+
+const router = Router();
+router.use(auth);
+router.use(requireStaff);
+
+// Validation schemas
+const feeSchema = z.object({
+  description: z.string().min(1),
+  // TRANSPORT: what we charge on top of the trucking re-billed at cost
+  category: z.enum(['HONORAIRES', 'COMMISSION', 'TRANSPORT']).optional(),
+  quantity: z.number().positive().optional(),
+  unitPrice: z.number().positive(),
+});
+
+const createInvoiceSchema = z.object({
+  shipmentId: z.string(),
+  fees: z.array(feeSchema).optional(),
+  dueDate: z.string().transform(s => new Date(s)).optional(),
+  notes: z.string().optional(),
+});
+
+const updateInvoiceSchema = z.object({
+  fees: z.array(feeSchema).optional(),
+  dueDate: z.string().transform(s => new Date(s)).nullable().optional(),
+  notes: z.string().nullable().optional(),
+  clientName: z.string().min(1).optional(),
+  clientNif: z.string().nullable().optional(),
+  clientAddress: z.string().nullable().optional(),
+});
+
+const issueSchema = z.object({
+  force: z.boolean().optional(),
+});
+
+const paySchema = z.object({
+  method: z.enum(['CASH', 'CHEQUE', 'BANK_TRANSFER', 'MOBILE_MONEY']),
+  accountId: z.string({ required_error: 'Compte de trésorerie requis' }),
+  receivedAt: z.string().transform(s => new Date(s)).optional(),
+  payerName: z.string().optional(),
+  externalRef: z.string().optional(),
+  bankName: z.string().optional(),
+}).refine(p => p.method === 'CASH' || !!p.externalRef, {
+  message: 'Référence requise (n° de chèque, de virement ou de transaction)',
+  path: ['externalRef'],
+});
+
+const cancelSchema = z.object({
+  reason: z.string().min(1, 'Motif requis'),
+});
+
+const invoiceInclude = {
+  lines: { orderBy: { position: 'asc' } },
+  shipment: { select: { id: true, trackingNumber: true, blNumber: true, status: true } },
+  creditNote: { select: { id: true, number: true, issueDate: true } },
+  creditedInvoice: { select: { id: true, number: true, issueDate: true } },
+} satisfies Prisma.InvoiceInclude;
+
+// The draft still reflects the shipment's expenses and provisions
+const isUpToDate = (
+  invoice: { totalAmount: number; provisionsDeducted: number; lines: { expenseId: string | null }[] },
+  draft: { totals: { totalAmount: number; provisionsDeducted: number }; lines: { expenseId: string | null }[] }
+) =>
+  invoice.totalAmount === draft.totals.totalAmount &&
+  invoice.provisionsDeducted === draft.totals.provisionsDeducted &&
+  invoice.lines.length === draft.lines.length &&
+  draft.lines.every(l => !l.expenseId || invoice.lines.some(i => i.expenseId === l.expenseId));
+
+// ============================================
+// GET /api/invoices
+// ============================================
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { status, type, shipmentId, clientId, search, page = '1', limit = '20' } = req.query;
+    const pageNum = Math.max(1, parseInt(page as string));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = { companyId: req.user!.companyId };
+
+    if (status) where.status = status;
+    if (type) where.type = type;
+    if (shipmentId) where.shipmentId = shipmentId;
+    if (clientId) where.clientId = clientId;
+
+    if (search) {
+      where.OR = [
+        { number: { contains: search as string, mode: 'insensitive' } },
+        { clientName: { contains: search as string, mode: 'insensitive' } },
+        { shipment: { trackingNumber: { contains: search as string, mode: 'insensitive' } } },
+      ];
+    }
+
+    const [invoices, total] = await Promise.all([
+      prisma.invoice.findMany({
+        where,
+        include: { shipment: { select: { trackingNumber: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limitNum,
+      }),
+      prisma.invoice.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        invoices,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      },
+    });
+  } catch (error) {
+    log.error('Get invoices error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// GET /api/invoices/:id
+// ============================================
+
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+      include: invoiceInclude,
+    });
+
+    if (!invoice) {
+      return res.status(404).json({
+        success: false,
+        message: 'Facture non trouvée',
+      });
+    }
+
+    res.json({ success: true, data: { invoice } });
+  } catch (error) {
+    log.error('Get invoice error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/invoices
+// ============================================
+
+router.post('/', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const data = createInvoiceSchema.parse(req.body);
+
+    const shipment = await prisma.shipment.findFirst({
+      where: { id: data.shipmentId, companyId: req.user!.companyId },
+    });
+
+    if (!shipment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Dossier non trouvé',
+      });
+    }
+
+    const invoice = await prisma.$transaction(async (tx) => {
+      const draft = await buildInvoiceDraft(tx, shipment.id, data.fees);
+      if (draft.lines.length === 0) return null;
+
+      return tx.invoice.create({
+        data: {
+          shipmentId: shipment.id,
+          companyId: req.user!.companyId,
+          createdById: req.user!.id,
+          clientId: shipment.clientId,
+          clientName: shipment.clientName,
+          clientNif: shipment.clientNif,
+          clientAddress: shipment.clientAddress,
+          dueDate: data.dueDate,
+          notes: data.notes,
+          ...draft.totals,
+          lines: { create: draft.lines },
+        },
+        include: invoiceInclude,
+      });
+    });
+
+    if (!invoice) {
+      return res.status(422).json({
+        success: false,
+        message: 'Aucun débours ni honoraire à facturer sur ce dossier',
+        code: 'INVOICE_EMPTY',
+      });
+    }
+
+    log.audit('Invoice draft created', { invoiceId: invoice.id, shipmentId: shipment.id });
+
+    res.status(201).json({ success: true, data: { invoice } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Create invoice error', error);
+    res.status(500).json({ success: false, message: 'Erreur de création' });
+  }
+});
+
+// ============================================
+// PATCH /api/invoices/:id
+// ============================================
+
+router.patch('/:id', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const { fees, ...data } = updateInvoiceSchema.parse(req.body);
+
+    const existing = await prisma.invoice.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Facture non trouvée',
+      });
+    }
+
+    if (existing.status !== 'DRAFT') {
+      return res.status(409).json({
+        success: false,
+        message: 'Facture émise : seule une facture brouillon peut être modifiée',
+        code: 'INVOICE_LOCKED',
+      });
+    }
+
+    const invoice = await prisma.$transaction(async (tx) => {
+      if (fees) {
+        const draft = await buildInvoiceDraft(tx, existing.shipmentId, fees, existing.id);
+        await tx.invoiceLine.deleteMany({ where: { invoiceId: existing.id } });
+        return tx.invoice.update({
+          where: { id: existing.id },
+          data: { ...data, ...draft.totals, lines: { create: draft.lines } },
+          include: invoiceInclude,
+        });
+      }
+
+      return tx.invoice.update({
+        where: { id: existing.id },
+        data,
+        include: invoiceInclude,
+      });
+    });
+
+    log.audit('Invoice draft updated', { invoiceId: invoice.id });
+
+    res.json({ success: true, data: { invoice } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Update invoice error', error);
+    res.status(500).json({ success: false, message: 'Erreur de mise à jour' });
+  }
+});
+
+// ============================================
+// POST /api/invoices/:id/refresh
+// ============================================
+
+router.post('/:id/refresh', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.invoice.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+      include: { lines: true },
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Facture non trouvée',
+      });
+    }
+
+    if (existing.status !== 'DRAFT') {
+      return res.status(409).json({
+        success: false,
+        message: 'Facture émise : seule une facture brouillon peut être modifiée',
+        code: 'INVOICE_LOCKED',
+      });
+    }
+
+    const invoice = await prisma.$transaction(async (tx) => {
+      const [draft, shipment] = await Promise.all([
+        buildInvoiceDraft(tx, existing.shipmentId, manualFees(existing.lines), existing.id),
+        tx.shipment.findUniqueOrThrow({ where: { id: existing.shipmentId } }),
+      ]);
+      await tx.invoiceLine.deleteMany({ where: { invoiceId: existing.id } });
+
+      return tx.invoice.update({
+        where: { id: existing.id },
+        data: {
+          clientId: shipment.clientId,
+          clientName: shipment.clientName,
+          clientNif: shipment.clientNif,
+          clientAddress: shipment.clientAddress,
+          ...draft.totals,
+          lines: { create: draft.lines },
+        },
+        include: invoiceInclude,
+      });
+    });
+
+    res.json({ success: true, data: { invoice } });
+  } catch (error) {
+    log.error('Refresh invoice error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// DELETE /api/invoices/:id
+// ============================================
+
+router.delete('/:id', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+    });
+
+    if (!invoice) {
+      return res.status(404).json({
+        success: false,
+        message: 'Facture non trouvée',
+      });
+    }
+
+    // Issued invoices are cancelled with a credit note, never deleted
+    if (invoice.status !== 'DRAFT') {
+      return res.status(409).json({
+        success: false,
+        message: 'Facture émise : annulez-la par un avoir',
+        code: 'INVOICE_LOCKED',
+      });
+    }
+
+    await prisma.invoice.delete({ where: { id: invoice.id } });
+
+    log.audit('Invoice draft deleted', { invoiceId: invoice.id });
+
+    res.json({ success: true, message: 'Brouillon supprimé' });
+  } catch (error) {
+    log.error('Delete invoice error', error);
+    res.status(500).json({ success: false, message: 'Erreur de suppression' });
+  }
+});
+
+// ============================================
+// POST /api/invoices/:id/issue
+// ============================================
+
+router.post('/:id/issue', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const { force } = issueSchema.parse(req.body);
+    const companyId = req.user!.companyId;
+    // Numbers are sequential, so dates must be too: always the server date
+    const issueDate = new Date();
+
+    const existing = await prisma.invoice.findFirst({
+      where: { id: req.params.id, companyId },
+      include: {
+        lines: true,
+        shipment: { include: { documents: { select: { type: true } } } },
+      },
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Facture non trouvée',
+      });
+    }
+
+    if (existing.status !== 'DRAFT') {
+      return res.status(409).json({
+        success: false,
+        message: 'Facture émise : seule une facture brouillon peut être modifiée',
+        code: 'INVOICE_LOCKED',
+      });
+    }
+
+    // A dossier already invoiced, or further along, keeps its status
+    const { shipment } = existing;
+    const moveShipment = !['INVOICED', 'CLOSED', 'ARCHIVED'].includes(shipment.status);
+    let warnings: unknown[] = [];
+
+    if (moveShipment) {
+      const checklist = await loadChecklist(companyId);
+      const check = checkTransition(shipment, 'INVOICED', req.user!.role, { force, checklist });
+
+      if (!check.allowed) {
+        return res.status(transitionHttpStatus(check.code)).json({
+          success: false,
+          message: check.message,
+          code: check.code,
+          missing: check.missing,
+        });
+      }
+      warnings = check.warnings;
+    }
+
+    const invoice = await prisma.$transaction(async (tx) => {
+      const draft = await buildInvoiceDraft(tx, existing.shipmentId, manualFees(existing.lines), existing.id);
+      if (!isUpToDate(existing, draft)) return null;
+
+      const number = await allocateInvoiceNumber(tx, companyId, 'INVOICE', issueDate);
+      const dueDate = existing.dueDate ||
+        new Date(issueDate.getTime() + PAYMENT_TERM_DAYS * 24 * 60 * 60 * 1000);
+
+      const issued = await tx.invoice.update({
+        where: { id: existing.id },
+        // Fully covered by provisions: nothing left to collect
+        data: existing.amountDue <= 0
+          ? { number, status: 'PAID', issueDate, dueDate, paidAt: issueDate }
+          : { number, status: 'ISSUED', issueDate, dueDate },
+        include: invoiceInclude,
+      });
+
+      await tx.timelineEvent.create({
+        data: {
+          shipmentId: shipment.id,
+          action: 'Facture émise',
+          description: `${number} - ${issued.totalAmount.toLocaleString('fr-FR')} GNF`,
+          userId: req.user!.id,
+          userName: req.user!.name,
+        },
+      });
+
+      if (moveShipment) {
+        await tx.shipment.update({ where: { id: shipment.id }, data: { status: 'INVOICED' } });
+        await tx.timelineEvent.create({
+          data: {
+            shipmentId: shipment.id,
+            action: 'Statut changé: INVOICED',
+            description: `Facture ${number}`,
+            userId: req.user!.id,
+            userName: req.user!.name,
+          },
+        });
+      }
+
+      return issued;
+    });
+
+    if (!invoice) {
+      return res.status(409).json({
+        success: false,
+        message: 'Les dépenses du dossier ont changé : actualisez le brouillon avant émission',
+        code: 'INVOICE_OUTDATED',
+      });
+    }
+
+    log.audit('Invoice issued', {
+      invoiceId: invoice.id,
+      number: invoice.number,
+      shipmentId: shipment.id,
+      totalAmount: invoice.totalAmount,
+    });
+
+    res.json({ success: true, data: { invoice, warnings } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Issue invoice error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/invoices/:id/pay
+// ============================================
+
+// Settles the remaining balance with a single receipt
+router.post('/:id/pay', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const { receivedAt = new Date(), ...data } = paySchema.parse(req.body);
+    const companyId = req.user!.companyId;
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: req.params.id, companyId, type: 'INVOICE' },
+    });
+
+    if (!invoice) {
+      return res.status(404).json({
+        success: false,
+        message: 'Facture non trouvée',
+      });
+    }
+
+    if (invoice.status !== 'ISSUED') {
+      return res.status(409).json({
+        success: false,
+        message: 'Seule une facture émise et non réglée peut être encaissée',
+        code: 'INVALID_INVOICE_STATUS',
+      });
+    }
+
+    if (!invoice.clientId) {
+      return res.status(422).json({
+        success: false,
+        message: 'Facture sans client rattaché : enregistrez l\'encaissement depuis la fiche client',
+        code: 'CLIENT_REQUIRED',
+      });
+    }
+
+    const amount = invoice.amountDue - invoice.amountPaid;
+
+    if (amount <= 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Aucun montant restant dû sur cette facture',
+        code: 'NOTHING_DUE',
+      });
+    }
+
+    const payment = await prisma.$transaction(async (tx) => {
+      const created = await tx.clientPayment.create({
+        data: {
+          ...data,
+          amount,
+          receivedAt,
+          number: await allocateReceiptNumber(tx, companyId, receivedAt),
+          clientId: invoice.clientId!,
+          companyId,
+          createdById: req.user!.id,
+        },
+      });
+      await postMovement(tx, {
+        accountId: created.accountId!,
+        companyId,
+        type: 'CLIENT_RECEIPT',
+        amount,
+        label: `Encaissement ${created.number} - ${invoice.clientName}`,
+        date: receivedAt,
+        reference: created.externalRef,
+        paymentId: created.id,
+        createdById: req.user!.id,
+      });
+      await allocatePayment(tx, created.id, { invoiceId: invoice.id, amount });
+      return created;
+    });
+
+    const updated = await prisma.invoice.findUniqueOrThrow({
+      where: { id: invoice.id },
+      include: invoiceInclude,
+    });
+
+    log.audit('Invoice paid', { invoiceId: invoice.id, number: invoice.number, paymentId: payment.id, amount });
+
+    res.json({ success: true, data: { invoice: updated, payment } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    if (error instanceof AllocationError || error instanceof TreasuryError) {
+      return res.status(error.status).json({ success: false, message: error.message, code: error.code });
+    }
+    log.error('Pay invoice error', error);
+    res.status(500).json({ success: false, message: 'Erreur de paiement' });
+  }
+});
+
+// ============================================
+// POST /api/invoices/:id/cancel
+// ============================================
+
+router.post('/:id/cancel', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const { reason } = cancelSchema.parse(req.body);
+    const companyId = req.user!.companyId;
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: req.params.id, companyId, type: 'INVOICE' },
+      include: { lines: true, shipment: true },
+    });
+
+    if (!invoice) {
+      return res.status(404).json({
+        success: false,
+        message: 'Facture non trouvée',
+      });
+    }
+
+    // An invoice covered by provisions is paid at issue without any receipt
+    const settledByProvisions = invoice.status === 'PAID' && invoice.amountPaid === 0;
+    if (invoice.status !== 'ISSUED' && !settledByProvisions) {
+      return res.status(409).json({
+        success: false,
+        message: invoice.status === 'DRAFT'
+          ? 'Un brouillon se supprime, il ne s\'annule pas'
+          : 'Seule une facture émise et non réglée peut être annulée',
+        code: 'INVALID_INVOICE_STATUS',
+      });
+    }
+
+    if (invoice.amountPaid > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Facture partiellement encaissée : supprimez d\'abord les imputations',
+        code: 'INVOICE_HAS_PAYMENTS',
+      });
+    }
+
+    const creditNote = await prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const number = await allocateInvoiceNumber(tx, companyId, 'CREDIT_NOTE', now);
+
+      // The credit note mirrors the invoice with negated amounts
+      const note = await tx.invoice.create({
+        data: {
+          number,
+          type: 'CREDIT_NOTE',
+          status: 'ISSUED',
+          issueDate: now,
+          clientId: invoice.clientId,
+          clientName: invoice.clientName,
+          clientNif: invoice.clientNif,
+          clientAddress: invoice.clientAddress,
+          totalDisbursements: -invoice.totalDisbursements,
+          totalFees: -invoice.totalFees,
+          vatRate: invoice.vatRate,
+          vatAmount: -invoice.vatAmount,
+          totalAmount: -invoice.totalAmount,
+          provisionsDeducted: -invoice.provisionsDeducted,
+          amountDue: -invoice.amountDue,
+          notes: reason,
+          creditedInvoiceId: invoice.id,
+          shipmentId: invoice.shipmentId,
+          companyId,
+          createdById: req.user!.id,
+          lines: {
+            create: invoice.lines.map(l => ({
+              kind: l.kind,
+              category: l.category,
+              description: l.description,
+              quantity: l.quantity,
+              unitPrice: -l.unitPrice,
+              amount: -l.amount,
+              taxable: l.taxable,
+              position: l.position,
+              expenseId: l.expenseId,
+            })),
+          },
+        },
+        include: invoiceInclude,
+      });
+
+      await tx.invoice.update({
+        where: { id: invoice.id },
+        data: { status: 'CANCELLED', cancelReason: reason },
+      });
+
+      await tx.timelineEvent.create({
+        data: {
+          shipmentId: invoice.shipmentId,
+          action: 'Facture annulée',
+          description: `${invoice.number} annulée par l'avoir ${number} : ${reason}`,
+          userId: req.user!.id,
+          userName: req.user!.name,
+        },
+      });
+
+      // Back to DELIVERED once no invoice stands on the dossier
+      const remaining = await tx.invoice.count({
+        where: {
+          shipmentId: invoice.shipmentId,
+          type: 'INVOICE',
+          status: { in: ['ISSUED', 'PAID'] },
+        },
+      });
+
+      if (remaining === 0 && invoice.shipment.status === 'INVOICED') {
+        await tx.shipment.update({ where: { id: invoice.shipmentId }, data: { status: 'DELIVERED' } });
+        await tx.timelineEvent.create({
+          data: {
+            shipmentId: invoice.shipmentId,
+            action: 'Statut changé: DELIVERED',
+            description: `Facture ${invoice.number} annulée`,
+            userId: req.user!.id,
+            userName: req.user!.name,
+          },
+        });
+      }
+
+      return note;
+    });
+
+    log.audit('Invoice cancelled', {
+      invoiceId: invoice.id,
+      number: invoice.number,
+      creditNoteId: creditNote.id,
+      creditNoteNumber: creditNote.number,
+    });
+
+    res.status(201).json({ success: true, data: { creditNote } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Cancel invoice error', error);
+    res.status(500).json({ success: false, message: 'Erreur d\'annulation' });
+  }
+});
+
+export default router;
@@ -0,0 +1,403 @@
+// server/routes/payments.ts
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../config/prisma.js';
+import { log } from '../config/logger.js';
+import { auth, requireStaff, requireAccountant } from '../middleware/auth.js';
+import {
+  AllocationError,
+  allocatePayment,
+  allocateReceiptNumber,
+  buildAgingReport,
+  removeAllocation,
+  unallocatedAmount,
+} from '../services/receivable.service.js';
+import { TreasuryError, postMovement, reverseMovements } from '../services/treasury.service.js';
+
+const router = Router();
+router.use(auth);
+router.use(requireStaff);
+
+// Validation schemas
+const allocationSchema = z.object({
+  invoiceId: z.string().optional(),
+  shipmentId: z.string().optional(),
+  amount: z.number().positive(),
+}).refine(a => !!a.invoiceId !== !!a.shipmentId, {
+  message: 'Indiquer une facture ou un dossier',
+});
+
+const createPaymentSchema = z.object({
+  clientId: z.string(),
+  method: z.enum(['CASH', 'CHEQUE', 'BANK_TRANSFER', 'MOBILE_MONEY']),
+  accountId: z.string({ required_error: 'Compte de trésorerie requis' }),
+  amount: z.number().positive(),
+  receivedAt: z.string().transform(s => new Date(s)).optional(),
+  payerName: z.string().optional(),
+  externalRef: z.string().optional(),
+  bankName: z.string().optional(),
+  notes: z.string().optional(),
+  allocations: z.array(allocationSchema).optional(),
+}).refine(p => p.method === 'CASH' || !!p.externalRef, {
+  message: 'Référence requise (n° de chèque, de virement ou de transaction)',
+  path: ['externalRef'],
+});
+
+const cancelPaymentSchema = z.object({
+  reason: z.string().min(1, 'Motif requis'),
+});
+
+const paymentInclude = {
+  client: { select: { id: true, name: true } },
+  account: { select: { id: true, name: true, type: true } },
+  allocations: {
+    include: {
+      invoice: { select: { id: true, number: true } },
+      shipment: { select: { id: true, trackingNumber: true } },
+    },
+  },
+} as const;
+
+// ============================================
+// GET /api/payments
+// ============================================
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { clientId, method, from, to, unallocated, page = '1', limit = '20' } = req.query;
+    const pageNum = Math.max(1, parseInt(page as string));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = { companyId: req.user!.companyId };
+
+    if (clientId) where.clientId = clientId;
+    if (method) where.method = method;
+    if (from || to) {
+      where.receivedAt = {};
+      if (from) where.receivedAt.gte = new Date(from as string);
+      if (to) where.receivedAt.lte = new Date(to as string);
+    }
+
+    // The unallocated amount is not a column: resolved to ids before paging
+    if (unallocated === 'true') {
+      const candidates = await prisma.clientPayment.findMany({
+        where: { ...where, cancelledAt: null },
+        select: { id: true, amount: true, allocations: { select: { amount: true } } },
+      });
+      where.id = { in: candidates.filter(p => unallocatedAmount(p) > 0).map(p => p.id) };
+    }
+
+    const [payments, total] = await Promise.all([
+      prisma.clientPayment.findMany({
+        where,
+        include: paymentInclude,
+        orderBy: { receivedAt: 'desc' },
+        skip,
+        take: limitNum,
+      }),
+      prisma.clientPayment.count({ where }),
+    ]);
+
+    const rows = payments.map(p => ({ ...p, unallocated: p.cancelledAt ? 0 : unallocatedAmount(p) }));
+
+    res.json({
+      success: true,
+      data: {
+        payments: rows,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      },
+    });
+  } catch (error) {
+    log.error('Get payments error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// GET /api/payments/aging
+// ============================================
+
+router.get('/aging', async (req: Request, res: Response) => {
+  try {
+    const report = await buildAgingReport(req.user!.companyId, req.query.clientId as string | undefined);
+
+    res.json({ success: true, data: report });
+  } catch (error) {
+    log.error('Aging report error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// GET /api/payments/:id
+// ============================================
+
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const payment = await prisma.clientPayment.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+      include: paymentInclude,
+    });
+
+    if (!payment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Encaissement non trouvé',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { payment: { ...payment, unallocated: payment.cancelledAt ? 0 : unallocatedAmount(payment) } },
+    });
+  } catch (error) {
+    log.error('Get payment error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/payments
+// ============================================
+
+router.post('/', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const { allocations = [], ...data } = createPaymentSchema.parse(req.body);
+    const companyId = req.user!.companyId;
+
+    const client = await prisma.client.findFirst({
+      where: { id: data.clientId, companyId },
+    });
+
+    if (!client) {
+      return res.status(404).json({
+        success: false,
+        message: 'Client non trouvé',
+      });
+    }
+
+    const payment = await prisma.$transaction(async (tx) => {
+      const receivedAt = data.receivedAt || new Date();
+      const created = await tx.clientPayment.create({
+        data: {
+          ...data,
+          receivedAt,
+          number: await allocateReceiptNumber(tx, companyId, receivedAt),
+          companyId,
+          createdById: req.user!.id,
+        },
+      });
+
+      await postMovement(tx, {
+        accountId: created.accountId!,
+        companyId,
+        type: 'CLIENT_RECEIPT',
+        amount: created.amount,
+        label: `Encaissement ${created.number} - ${client.name}`,
+        date: receivedAt,
+        reference: created.externalRef,
+        paymentId: created.id,
+        createdById: req.user!.id,
+      });
+
+      for (const allocation of allocations) {
+        await allocatePayment(tx, created.id, allocation);
+      }
+
+      return tx.clientPayment.findUniqueOrThrow({ where: { id: created.id }, include: paymentInclude });
+    });
+
+    log.audit('Client payment recorded', {
+      paymentId: payment.id,
+      number: payment.number,
+      clientId: client.id,
+      method: payment.method,
+      amount: payment.amount,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { payment: { ...payment, unallocated: unallocatedAmount(payment) } },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    if (error instanceof AllocationError || error instanceof TreasuryError) {
+      return res.status(error.status).json({ success: false, message: error.message, code: error.code });
+    }
+    log.error('Create payment error', error);
+    res.status(500).json({ success: false, message: 'Erreur d\'enregistrement' });
+  }
+});
+
+// ============================================
+// POST /api/payments/:id/allocations
+// ============================================
+
+router.post('/:id/allocations', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const target = allocationSchema.parse(req.body);
+
+    const existing = await prisma.clientPayment.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Encaissement non trouvé',
+      });
+    }
+
+    const payment = await prisma.$transaction(async (tx) => {
+      await allocatePayment(tx, existing.id, target);
+      return tx.clientPayment.findUniqueOrThrow({ where: { id: existing.id }, include: paymentInclude });
+    });
+
+    log.audit('Client payment allocated', { paymentId: payment.id, ...target });
+
+    res.status(201).json({
+      success: true,
+      data: { payment: { ...payment, unallocated: unallocatedAmount(payment) } },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    if (error instanceof AllocationError || error instanceof TreasuryError) {
+      return res.status(error.status).json({ success: false, message: error.message, code: error.code });
+    }
+    log.error('Allocate payment error', error);
+    res.status(500).json({ success: false, message: 'Erreur d\'imputation' });
+  }
+});
+
+// ============================================
+// DELETE /api/payments/:id/allocations/:allocationId
+// ============================================
+
+router.delete('/:id/allocations/:allocationId', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const allocation = await prisma.paymentAllocation.findFirst({
+      where: {
+        id: req.params.allocationId,
+        paymentId: req.params.id,
+        payment: { companyId: req.user!.companyId },
+      },
+    });
+
+    if (!allocation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Imputation non trouvée',
+      });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await removeAllocation(tx, allocation);
+    });
+
+    log.audit('Client payment allocation removed', {
+      paymentId: allocation.paymentId,
+      allocationId: allocation.id,
+      amount: allocation.amount,
+    });
+
+    res.json({ success: true, message: 'Imputation supprimée' });
+  } catch (error) {
+    if (error instanceof AllocationError) {
+      return res.status(error.status).json({ success: false, message: error.message, code: error.code });
+    }
+    log.error('Remove allocation error', error);
+    res.status(500).json({ success: false, message: 'Erreur de suppression' });
+  }
+});
+
+// ============================================
+// POST /api/payments/:id/cancel
+// ============================================
+
+router.post('/:id/cancel', requireAccountant, async (req: Request, res: Response) => {
+  try {
+    const { reason } = cancelPaymentSchema.parse(req.body);
+
+    const payment = await prisma.clientPayment.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+      include: { _count: { select: { allocations: true } } },
+    });
+
+    if (!payment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Encaissement non trouvé',
+      });
+    }
+
+    if (payment.cancelledAt) {
+      return res.status(409).json({
+        success: false,
+        message: 'Encaissement déjà annulé',
+      });
+    }
+
+    // Receipts are numbered: they are cancelled, never deleted
+    if (payment._count.allocations > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Supprimez d\'abord les imputations de cet encaissement',
+        code: 'PAYMENT_ALLOCATED',
+      });
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await reverseMovements(
+        tx,
+        req.user!.companyId,
+        { paymentId: payment.id },
+        `Annulation encaissement ${payment.number}`,
+        req.user!.id
+      );
+
+      return tx.clientPayment.update({
+        where: { id: payment.id },
+        data: { cancelledAt: new Date(), cancelReason: reason },
+        include: paymentInclude,
+      });
+    });
+
+    log.audit('Client payment cancelled', { paymentId: payment.id, number: payment.number, reason });
+
+    res.json({ success: true, data: { payment: updated } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    if (error instanceof TreasuryError) {
+      return res.status(error.status).json({ success: false, message: error.message, code: error.code });
+    }
+    log.error('Cancel payment error', error);
+    res.status(500).json({ success: false, message: 'Erreur d\'annulation' });
+  }
+});
+
+export default router;
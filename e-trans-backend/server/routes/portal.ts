@@ -0,0 +1,245 @@
+// server/routes/portal.ts
+
+import { Router, Request, Response } from 'express';
+import { prisma } from '../config/prisma.js';
+import { log } from '../config/logger.js';
+import { auth, requireClient } from '../middleware/auth.js';
+import { sendDocument } from '../services/storage.service.js';
+
+const router = Router();
+router.use(auth);
+router.use(requireClient);
+
+// Fields a client contact may see; internal references, agent names and
+// audit data stay on the staff side.
+const shipmentSelect = {
+  id: true,
+  trackingNumber: true,
+  blNumber: true,
+  description: true,
+  packageCount: true,
+  grossWeight: true,
+  cifValue: true,
+  cifCurrency: true,
+  shippingLine: true,
+  vesselName: true,
+  voyageNumber: true,
+  portOfLoading: true,
+  portOfDischarge: true,
+  eta: true,
+  ata: true,
+  customsRegime: true,
+  declarationNumber: true,
+  totalDuties: true,
+  deliveryPlace: true,
+  deliveryDate: true,
+  status: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+const containerSelect = {
+  id: true,
+  number: true,
+  type: true,
+  sealNumber: true,
+  status: true,
+  dischargedAt: true,
+  gateOutAt: true,
+  deliveredAt: true,
+  emptyReturnedAt: true,
+} as const;
+
+const scope = (req: Request) => ({
+  companyId: req.user!.companyId,
+  clientId: req.user!.clientId!,
+});
+
+const balanceOf = (expenses: { type: string; amount: number; paid: boolean }[]) => {
+  let provisions = 0;
+  let paid = 0;
+
+  for (const e of expenses) {
+    if (e.type === 'PROVISION') {
+      provisions += e.amount;
+    } else if (e.paid) {
+      paid += e.amount;
+    }
+  }
+
+  return { provisions, paid, balance: provisions - paid };
+};
+
+// ============================================
+// GET /api/portal/shipments
+// ============================================
+
+router.get('/shipments', async (req: Request, res: Response) => {
+  try {
+    const { status, search, page = '1', limit = '20' } = req.query;
+    const pageNum = Math.max(1, parseInt(page as string));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = scope(req);
+
+    if (status) where.status = status;
+
+    if (search) {
+      where.OR = [
+        { trackingNumber: { contains: search as string, mode: 'insensitive' } },
+        { blNumber: { contains: search as string, mode: 'insensitive' } },
+        { description: { contains: search as string, mode: 'insensitive' } },
+        { containers: { some: { number: { contains: (search as string).toUpperCase() } } } },
+      ];
+    }
+
+    const [shipments, total] = await Promise.all([
+      prisma.shipment.findMany({
+        where,
+        select: { ...shipmentSelect, containers: { select: containerSelect } },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limitNum,
+      }),
+      prisma.shipment.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        shipments,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      },
+    });
+  } catch (error) {
+    log.error('Portal shipments error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// GET /api/portal/shipments/:id
+// ============================================
+
+router.get('/shipments/:id', async (req: Request, res: Response) => {
+  try {
+    const shipment = await prisma.shipment.findFirst({
+      where: { id: req.params.id, ...scope(req) },
+      select: {
+        ...shipmentSelect,
+        containers: { select: containerSelect },
+        documents: {
+          select: {
+            id: true, type: true, name: true, url: true, reference: true, issueDate: true,
+            mimeType: true, size: true, storageKey: true, version: true, createdAt: true,
+          },
+          where: { isCurrent: true },
+          orderBy: { createdAt: 'desc' },
+        },
+        timeline: {
+          select: { id: true, action: true, description: true, date: true },
+          orderBy: { date: 'desc' },
+        },
+        expenses: { select: { type: true, amount: true, paid: true } },
+      },
+    });
+
+    if (!shipment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Dossier non trouvé',
+      });
+    }
+
+    const { expenses, documents, ...rest } = shipment;
+
+    res.json({
+      success: true,
+      data: {
+        shipment: {
+          ...rest,
+          // Stored files go through the portal download route
+          documents: documents.map(({ storageKey, ...d }) => ({
+            ...d,
+            url: storageKey ? `/api/portal/shipments/${shipment.id}/documents/${d.id}/download` : d.url,
+          })),
+          finance: balanceOf(expenses),
+        },
+      },
+    });
+  } catch (error) {
+    log.error('Portal shipment error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// GET /api/portal/shipments/:id/documents/:docId/download
+// ============================================
+
+router.get('/shipments/:id/documents/:docId/download', async (req: Request, res: Response) => {
+  try {
+    const document = await prisma.document.findFirst({
+      where: {
+        id: req.params.docId,
+        shipment: { id: req.params.id, ...scope(req) },
+      },
+    });
+
+    if (!document) {
+      return res.status(404).json({
+        success: false,
+        message: 'Document non trouvé',
+      });
+    }
+
+    await sendDocument(res, document, req.query.download ? 'attachment' : 'inline');
+  } catch (error) {
+    log.error('Portal download error', error);
+    if (!res.headersSent) res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// GET /api/portal/balance
+// ============================================
+
+router.get('/balance', async (req: Request, res: Response) => {
+  try {
+    const shipments = await prisma.shipment.findMany({
+      where: scope(req),
+      select: {
+        id: true,
+        trackingNumber: true,
+        blNumber: true,
+        status: true,
+        expenses: { select: { type: true, amount: true, paid: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const rows = shipments.map(({ expenses, ...s }) => ({ ...s, ...balanceOf(expenses) }));
+
+    const totals = rows.reduce(
+      (acc, r) => ({
+        provisions: acc.provisions + r.provisions,
+        paid: acc.paid + r.paid,
+        balance: acc.balance + r.balance,
+      }),
+      { provisions: 0, paid: 0, balance: 0 }
+    );
+
+    res.json({ success: true, data: { shipments: rows, totals } });
+  } catch (error) {
+    log.error('Portal balance error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+export default router;
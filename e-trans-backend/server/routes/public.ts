@@ -0,0 +1,95 @@
+// server/routes/public.ts
+
+import { Router, Request, Response } from 'express';
+import { prisma } from '../config/prisma.js';
+import { log } from '../config/logger.js';
+import { PUBLIC_STATUS_LABELS, matchesTrackingKey, redactTimeline } from '../services/tracking.service.js';
+
+const router = Router();
+
+// ============================================
+// GET /api/public/track/:trackingNumber?key=
+// ============================================
+
+router.get('/track/:trackingNumber', async (req: Request, res: Response) => {
+  try {
+    const key = typeof req.query.key === 'string' ? req.query.key : '';
+
+    const shipment = await prisma.shipment.findUnique({
+      where: { trackingNumber: req.params.trackingNumber.trim().toUpperCase() },
+      select: {
+        trackingNumber: true,
+        trackingSecret: true,
+        blNumber: true,
+        status: true,
+        vesselName: true,
+        portOfLoading: true,
+        portOfDischarge: true,
+        eta: true,
+        ata: true,
+        deliveryDate: true,
+        company: { select: { name: true, phone: true, trackingKeyRequired: true } },
+        containers: {
+          select: {
+            number: true,
+            type: true,
+            status: true,
+            dischargedAt: true,
+            gateOutAt: true,
+            deliveredAt: true,
+            emptyReturnedAt: true,
+          },
+        },
+        timeline: { select: { action: true, date: true } },
+      },
+    });
+
+    // Unknown numbers and missing keys get the same answer, so the
+    // endpoint cannot be used to probe which tracking numbers exist.
+    if (!key && (!shipment || shipment.company.trackingKeyRequired)) {
+      return res.status(401).json({
+        success: false,
+        message: 'Saisissez le numéro de BL ou le code figurant sur votre reçu',
+        code: 'TRACKING_KEY_REQUIRED',
+      });
+    }
+
+    if (!shipment || (key && !matchesTrackingKey(shipment, key))) {
+      log.warn('Public tracking miss', { trackingNumber: req.params.trackingNumber, ip: req.ip });
+      return res.status(404).json({
+        success: false,
+        message: 'Dossier introuvable ou code incorrect',
+      });
+    }
+
+    const { containers, timeline, company } = shipment;
+
+    res.json({
+      success: true,
+      data: {
+        trackingNumber: shipment.trackingNumber,
+        status: shipment.status,
+        statusLabel: PUBLIC_STATUS_LABELS[shipment.status],
+        vessel: {
+          name: shipment.vesselName,
+          portOfLoading: shipment.portOfLoading,
+          portOfDischarge: shipment.portOfDischarge,
+          eta: shipment.eta,
+          ata: shipment.ata,
+        },
+        delivery: {
+          delivered: ['DELIVERED', 'INVOICED', 'CLOSED', 'ARCHIVED'].includes(shipment.status),
+          date: shipment.deliveryDate,
+        },
+        containers: containers.map(c => ({ number: c.number, type: c.type, status: c.status })),
+        timeline: redactTimeline(timeline, containers),
+        forwarder: { name: company.name, phone: company.phone },
+      },
+    });
+  } catch (error) {
+    log.error('Public tracking error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+export default router;
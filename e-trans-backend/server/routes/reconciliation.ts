@@ -0,0 +1,654 @@
+// server/routes/reconciliation.ts
+
+import crypto from 'crypto';
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../config/prisma.js';
+import { log } from '../config/logger.js';
+import { auth, requireAccountant } from '../middleware/auth.js';
+import {
+  autoMatchLines,
+  findCandidates,
+  parseStatementFile,
+  referenceMatches,
+  refreshReconciliationStatus,
+} from '../services/bank-statement.service.js';
+import { TreasuryError, postMovement } from '../services/treasury.service.js';
+
+const router = Router();
+router.use(auth);
+router.use(requireAccountant);
+
+// Validation schemas
+const importSchema = z.object({
+  accountId: z.string(),
+  format: z.enum(['CSV', 'CAMT053']),
+  content: z.string().min(1),
+  fileName: z.string().optional(),
+});
+
+const matchSchema = z.object({
+  movementIds: z.array(z.string()).min(1, 'Au moins un mouvement'),
+});
+
+const ignoreSchema = z.object({
+  note: z.string().min(1, 'Motif requis'),
+});
+
+const bookSchema = z.object({
+  label: z.string().min(1).optional(),
+});
+
+const movementSelect = {
+  id: true,
+  type: true,
+  amount: true,
+  date: true,
+  label: true,
+  reference: true,
+} as const;
+
+const findLine = (req: Request) =>
+  prisma.bankStatementLine.findFirst({
+    where: { id: req.params.id, statement: { account: { companyId: req.user!.companyId } } },
+    include: { matches: true },
+  });
+
+// ============================================
+// POST /api/reconciliation/statements
+// ============================================
+
+router.post('/statements', async (req: Request, res: Response) => {
+  try {
+    const data = importSchema.parse(req.body);
+
+    const account = await prisma.treasuryAccount.findFirst({
+      where: { id: data.accountId, companyId: req.user!.companyId },
+    });
+
+    if (!account) {
+      return res.status(404).json({
+        success: false,
+        message: 'Compte non trouvé',
+      });
+    }
+
+    if (account.type === 'CASH') {
+      return res.status(400).json({
+        success: false,
+        message: 'Une caisse n\'a pas de relevé : utilisez l\'arrêté de caisse',
+      });
+    }
+
+    const checksum = crypto.createHash('sha256').update(data.content).digest('hex');
+    const duplicate = await prisma.bankStatement.findUnique({
+      where: { accountId_checksum: { accountId: account.id, checksum } },
+    });
+
+    if (duplicate) {
+      return res.status(409).json({
+        success: false,
+        message: 'Ce relevé a déjà été importé',
+        code: 'STATEMENT_ALREADY_IMPORTED',
+        statementId: duplicate.id,
+      });
+    }
+
+    let parsed;
+    try {
+      parsed = parseStatementFile(data.format, data.content);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        message: error instanceof SyntaxError ? error.message : 'Fichier illisible',
+      });
+    }
+
+    if (parsed.errors.length > 0) {
+      return res.status(422).json({
+        success: false,
+        message: `${parsed.errors.length} ligne(s) invalide(s)`,
+        code: 'IMPORT_INVALID_ROWS',
+        errors: parsed.errors,
+      });
+    }
+
+    if (parsed.rows.length === 0) {
+      return res.status(422).json({
+        success: false,
+        message: 'Aucune opération dans le relevé',
+        code: 'STATEMENT_EMPTY',
+      });
+    }
+
+    const { statement, matching } = await prisma.$transaction(async (tx) => {
+      const statement = await tx.bankStatement.create({
+        data: {
+          accountId: account.id,
+          format: data.format,
+          fileName: data.fileName,
+          statementRef: parsed.statementRef,
+          fromDate: parsed.fromDate,
+          toDate: parsed.toDate,
+          openingBalance: parsed.openingBalance,
+          closingBalance: parsed.closingBalance,
+          checksum,
+          importedById: req.user!.id,
+        },
+      });
+
+      await tx.bankStatementLine.createMany({
+        data: parsed.rows.map(row => ({ ...row, statementId: statement.id, accountId: account.id })),
+      });
+
+      const lines = await tx.bankStatementLine.findMany({
+        where: { statementId: statement.id },
+        orderBy: { date: 'asc' },
+      });
+      const matching = await autoMatchLines(tx, account.id, lines);
+      await refreshReconciliationStatus(tx, account.id);
+
+      return { statement, matching };
+    }, { timeout: 30000 });
+
+    log.audit('Bank statement imported', {
+      statementId: statement.id,
+      accountId: account.id,
+      lines: parsed.rows.length,
+      ...matching,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { statement, lines: parsed.rows.length, matching },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Import bank statement error', error);
+    res.status(500).json({ success: false, message: 'Erreur d\'import' });
+  }
+});
+
+// ============================================
+// GET /api/reconciliation/statements
+// ============================================
+
+router.get('/statements', async (req: Request, res: Response) => {
+  try {
+    const where: any = { account: { companyId: req.user!.companyId } };
+    if (req.query.accountId) where.accountId = req.query.accountId;
+
+    const statements = await prisma.bankStatement.findMany({
+      where,
+      include: { account: { select: { id: true, name: true } } },
+      orderBy: { toDate: 'desc' },
+      take: 100,
+    });
+
+    const counts = await prisma.bankStatementLine.groupBy({
+      by: ['statementId', 'status'],
+      where: { statementId: { in: statements.map(s => s.id) } },
+      _count: true,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        statements: statements.map(s => ({
+          ...s,
+          lines: Object.fromEntries(
+            counts.filter(c => c.statementId === s.id).map(c => [c.status, c._count])
+          ),
+        })),
+      },
+    });
+  } catch (error) {
+    log.error('Get bank statements error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// GET /api/reconciliation/statements/:id
+// ============================================
+
+router.get('/statements/:id', async (req: Request, res: Response) => {
+  try {
+    const statement = await prisma.bankStatement.findFirst({
+      where: { id: req.params.id, account: { companyId: req.user!.companyId } },
+      include: {
+        account: { select: { id: true, name: true } },
+        lines: {
+          include: { matches: { include: { movement: { select: movementSelect } } } },
+          orderBy: { date: 'asc' },
+        },
+      },
+    });
+
+    if (!statement) {
+      return res.status(404).json({
+        success: false,
+        message: 'Relevé non trouvé',
+      });
+    }
+
+    res.json({ success: true, data: { statement } });
+  } catch (error) {
+    log.error('Get bank statement error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// DELETE /api/reconciliation/statements/:id
+// ============================================
+
+router.delete('/statements/:id', async (req: Request, res: Response) => {
+  try {
+    const statement = await prisma.bankStatement.findFirst({
+      where: { id: req.params.id, account: { companyId: req.user!.companyId } },
+    });
+
+    if (!statement) {
+      return res.status(404).json({
+        success: false,
+        message: 'Relevé non trouvé',
+      });
+    }
+
+    // Matches go with the lines; the movements become unreconciled again
+    await prisma.$transaction(async (tx) => {
+      await tx.bankStatement.delete({ where: { id: statement.id } });
+      await refreshReconciliationStatus(tx, statement.accountId);
+    });
+
+    log.audit('Bank statement deleted', { statementId: statement.id, accountId: statement.accountId });
+
+    res.json({ success: true, message: 'Relevé supprimé' });
+  } catch (error) {
+    log.error('Delete bank statement error', error);
+    res.status(500).json({ success: false, message: 'Erreur de suppression' });
+  }
+});
+
+// ============================================
+// GET /api/reconciliation/queue?accountId=
+// ============================================
+
+router.get('/queue', async (req: Request, res: Response) => {
+  try {
+    const where: any = {
+      status: { in: ['UNMATCHED', 'SUGGESTED'] },
+      statement: { account: { companyId: req.user!.companyId } },
+    };
+    if (req.query.accountId) where.accountId = req.query.accountId;
+
+    const lines = await prisma.bankStatementLine.findMany({
+      where,
+      include: {
+        statement: { select: { id: true, fileName: true, account: { select: { id: true, name: true } } } },
+        matches: { include: { movement: { select: movementSelect } } },
+      },
+      orderBy: { date: 'asc' },
+      take: 200,
+    });
+
+    // Candidates of the same amount first, then any movement in the window
+    const queue = await Promise.all(lines.map(async line => {
+      const candidates = await findCandidates(prisma, line.accountId, line, { anyAmount: true });
+      return {
+        ...line,
+        candidates: candidates
+          .map(m => ({
+            id: m.id,
+            type: m.type,
+            amount: m.amount,
+            date: m.date,
+            label: m.label,
+            reference: m.reference,
+            sameAmount: Math.abs(m.amount - line.amount) < 0.5,
+            referenceMatch: referenceMatches(line, m),
+          }))
+          .sort((a, b) => Number(b.sameAmount) - Number(a.sameAmount) || Number(b.referenceMatch) - Number(a.referenceMatch)),
+      };
+    }));
+
+    res.json({ success: true, data: { lines: queue } });
+  } catch (error) {
+    log.error('Get reconciliation queue error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/reconciliation/lines/:id/confirm
+// ============================================
+
+router.post('/lines/:id/confirm', async (req: Request, res: Response) => {
+  try {
+    const line = await findLine(req);
+
+    if (!line) {
+      return res.status(404).json({
+        success: false,
+        message: 'Ligne non trouvée',
+      });
+    }
+
+    if (line.status !== 'SUGGESTED') {
+      return res.status(409).json({
+        success: false,
+        message: 'Aucun rapprochement proposé pour cette ligne',
+      });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.statementMatch.updateMany({
+        where: { lineId: line.id },
+        data: { confirmed: true, confirmedById: req.user!.id, confirmedAt: new Date() },
+      });
+      await tx.bankStatementLine.update({ where: { id: line.id }, data: { status: 'MATCHED' } });
+      await refreshReconciliationStatus(tx, line.accountId);
+    });
+
+    log.audit('Statement line confirmed', { lineId: line.id });
+
+    res.json({ success: true, message: 'Rapprochement confirmé' });
+  } catch (error) {
+    log.error('Confirm statement line error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/reconciliation/lines/:id/match
+// ============================================
+
+// One line against one or several movements (split), replacing any suggestion
+router.post('/lines/:id/match', async (req: Request, res: Response) => {
+  try {
+    const { movementIds } = matchSchema.parse(req.body);
+    const line = await findLine(req);
+
+    if (!line) {
+      return res.status(404).json({
+        success: false,
+        message: 'Ligne non trouvée',
+      });
+    }
+
+    const movements = await prisma.treasuryMovement.findMany({
+      where: { id: { in: movementIds }, accountId: line.accountId },
+      include: { match: { include: { line: { select: { id: true } } } } },
+    });
+
+    if (movements.length !== new Set(movementIds).size) {
+      return res.status(404).json({
+        success: false,
+        message: 'Mouvement non trouvé sur ce compte',
+      });
+    }
+
+    const taken = movements.filter(m => m.match && m.match.lineId !== line.id && m.match.confirmed);
+    if (taken.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Mouvement déjà rapproché d\'une autre ligne',
+        code: 'MOVEMENT_ALREADY_MATCHED',
+        movementIds: taken.map(m => m.id),
+      });
+    }
+
+    const total = movements.reduce((sum, m) => sum + m.amount, 0);
+    if (Math.abs(total - line.amount) >= 0.5) {
+      return res.status(422).json({
+        success: false,
+        message: `Total des mouvements (${total.toLocaleString('fr-FR')}) différent du montant de la ligne (${line.amount.toLocaleString('fr-FR')})`,
+        code: 'AMOUNT_MISMATCH',
+      });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      // Unconfirmed suggestions on other lines give way
+      const released = movements.filter(m => m.match && m.match.lineId !== line.id).map(m => m.match!);
+      for (const match of released) {
+        await tx.statementMatch.delete({ where: { id: match.id } });
+        await tx.bankStatementLine.update({ where: { id: match.lineId }, data: { status: 'UNMATCHED' } });
+      }
+
+      await tx.statementMatch.deleteMany({ where: { lineId: line.id } });
+      await tx.statementMatch.createMany({
+        data: movements.map(m => ({
+          lineId: line.id,
+          movementId: m.id,
+          confirmed: true,
+          confirmedById: req.user!.id,
+          confirmedAt: new Date(),
+        })),
+      });
+      await tx.bankStatementLine.update({ where: { id: line.id }, data: { status: 'MATCHED', note: null } });
+      await refreshReconciliationStatus(tx, line.accountId);
+    });
+
+    log.audit('Statement line matched', { lineId: line.id, movements: movementIds.length });
+
+    res.json({ success: true, message: 'Rapprochement enregistré' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Match statement line error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/reconciliation/lines/:id/book
+// ============================================
+
+// Bank charges, agios: lines with no movement behind them are booked as one
+router.post('/lines/:id/book', async (req: Request, res: Response) => {
+  try {
+    const { label } = bookSchema.parse(req.body);
+    const line = await findLine(req);
+
+    if (!line) {
+      return res.status(404).json({
+        success: false,
+        message: 'Ligne non trouvée',
+      });
+    }
+
+    if (line.status === 'MATCHED') {
+      return res.status(409).json({
+        success: false,
+        message: 'Ligne déjà rapprochée',
+      });
+    }
+
+    const companyId = req.user!.companyId;
+    const movement = await prisma.$transaction(async (tx) => {
+      await tx.statementMatch.deleteMany({ where: { lineId: line.id } });
+
+      const movement = await postMovement(tx, {
+        accountId: line.accountId,
+        companyId,
+        type: 'ADJUSTMENT',
+        amount: line.amount,
+        label: label || line.label || 'Opération bancaire',
+        date: line.date,
+        reference: line.reference,
+        createdById: req.user!.id,
+      });
+
+      await tx.statementMatch.create({
+        data: {
+          lineId: line.id,
+          movementId: movement.id,
+          confirmed: true,
+          confirmedById: req.user!.id,
+          confirmedAt: new Date(),
+        },
+      });
+      await tx.bankStatementLine.update({ where: { id: line.id }, data: { status: 'MATCHED', note: null } });
+      await refreshReconciliationStatus(tx, line.accountId);
+
+      return movement;
+    });
+
+    log.audit('Statement line booked', { lineId: line.id, movementId: movement.id, amount: line.amount });
+
+    res.status(201).json({ success: true, data: { movement } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    if (error instanceof TreasuryError) {
+      return res.status(error.status).json({ success: false, message: error.message, code: error.code });
+    }
+    log.error('Book statement line error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/reconciliation/lines/:id/ignore
+// ============================================
+
+router.post('/lines/:id/ignore', async (req: Request, res: Response) => {
+  try {
+    const { note } = ignoreSchema.parse(req.body);
+    const line = await findLine(req);
+
+    if (!line) {
+      return res.status(404).json({
+        success: false,
+        message: 'Ligne non trouvée',
+      });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.statementMatch.deleteMany({ where: { lineId: line.id } });
+      await tx.bankStatementLine.update({ where: { id: line.id }, data: { status: 'IGNORED', note } });
+      await refreshReconciliationStatus(tx, line.accountId);
+    });
+
+    log.audit('Statement line ignored', { lineId: line.id, note });
+
+    res.json({ success: true, message: 'Ligne ignorée' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Ignore statement line error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/reconciliation/lines/:id/unmatch
+// ============================================
+
+router.post('/lines/:id/unmatch', async (req: Request, res: Response) => {
+  try {
+    const line = await findLine(req);
+
+    if (!line) {
+      return res.status(404).json({
+        success: false,
+        message: 'Ligne non trouvée',
+      });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.statementMatch.deleteMany({ where: { lineId: line.id } });
+      await tx.bankStatementLine.update({ where: { id: line.id }, data: { status: 'UNMATCHED', note: null } });
+      await refreshReconciliationStatus(tx, line.accountId);
+    });
+
+    log.audit('Statement line unmatched', { lineId: line.id });
+
+    res.json({ success: true, message: 'Rapprochement annulé' });
+  } catch (error) {
+    log.error('Unmatch statement line error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// GET /api/reconciliation/accounts/:id/status
+// ============================================
+
+router.get('/accounts/:id/status', async (req: Request, res: Response) => {
+  try {
+    const account = await prisma.treasuryAccount.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+    });
+
+    if (!account) {
+      return res.status(404).json({
+        success: false,
+        message: 'Compte non trouvé',
+      });
+    }
+
+    const lastStatement = await prisma.bankStatement.findFirst({
+      where: { accountId: account.id },
+      orderBy: { toDate: 'desc' },
+      select: { id: true, toDate: true, closingBalance: true },
+    });
+
+    const [openLines, unreconciledMovements] = await Promise.all([
+      prisma.bankStatementLine.groupBy({
+        by: ['status'],
+        where: { accountId: account.id, status: { in: ['UNMATCHED', 'SUGGESTED'] } },
+        _count: true,
+      }),
+      // Book entries up to the last statement that the bank has not shown
+      lastStatement
+        ? prisma.treasuryMovement.findMany({
+            where: { accountId: account.id, match: null, date: { lte: lastStatement.toDate } },
+            select: movementSelect,
+            orderBy: { date: 'asc' },
+          })
+        : Promise.resolve([]),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        accountId: account.id,
+        reconciledUntil: account.reconciledUntil,
+        bookBalance: account.balance,
+        statementBalance: account.statementBalance,
+        lastStatement,
+        unmatchedLines: openLines.find(l => l.status === 'UNMATCHED')?._count || 0,
+        suggestedLines: openLines.find(l => l.status === 'SUGGESTED')?._count || 0,
+        unreconciledMovements,
+      },
+    });
+  } catch (error) {
+    log.error('Get reconciliation status error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+export default router;
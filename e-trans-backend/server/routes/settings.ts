@@ -0,0 +1,284 @@
+// server/routes/settings.ts
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../config/prisma.js';
+import { log } from '../config/logger.js';
+import { auth, requireStaff, requireDirector } from '../middleware/auth.js';
+import { dossierPrefix, dossierScope, formatDossierNumber, isDossierPrefixTaken, sequenceYear } from '../services/numbering.service.js';
+import { DEFAULT_CHECKLIST, DOCUMENT_LABELS } from '../services/checklist.service.js';
+
+const router = Router();
+router.use(auth);
+router.use(requireStaff);
+
+// Validation schemas
+const numberingSchema = z.object({
+  dossierPrefix: z.string().toUpperCase().regex(/^[A-Z0-9]{2,8}$/, 'Préfixe: 2 à 8 lettres ou chiffres').nullable().optional(),
+  dossierPadding: z.number().int().min(3).max(8).optional(),
+  dossierPerRegime: z.boolean().optional(),
+}).strict();
+
+const sequenceSchema = z.object({
+  regime: z.enum(['IM4', 'IM5', 'IM6', 'IM7', 'EX1', 'EX2', 'TR']).optional(),
+  year: z.number().int().min(2000).max(2100).optional(),
+  nextValue: z.number().int().min(1),
+});
+
+const documentTypes = [
+  'BL', 'INVOICE', 'PACKING_LIST', 'DDI', 'PHYTO_CERT', 'ORIGIN_CERT', 'EUR1', 'TRANSIT_ORDER',
+  'DECLARATION', 'LIQUIDATION', 'QUITTANCE', 'BAE', 'DO', 'EXIT_NOTE', 'EIR', 'TERMINAL_INVOICE',
+  'TERMINAL_RECEIPT', 'MSC_INVOICE', 'DELIVERY_NOTE', 'CUSTOMS_INVOICE', 'DEBIT_NOTE', 'RELEASE_REQUEST',
+  'OTHER',
+] as const;
+
+const checklistSchema = z.object({
+  rules: z.array(z.object({
+    regime: z.enum(['IM4', 'IM5', 'IM6', 'IM7', 'EX1', 'EX2', 'TR']).nullable().default(null),
+    status: z.enum([
+      'DRAFT', 'PENDING', 'ARRIVED', 'DDI_OBTAINED', 'DECLARATION_FILED', 'LIQUIDATION_ISSUED',
+      'CUSTOMS_PAID', 'BAE_ISSUED', 'TERMINAL_PAID', 'DO_RELEASED', 'EXIT_NOTE_ISSUED',
+      'IN_DELIVERY', 'DELIVERED', 'INVOICED', 'CLOSED', 'ARCHIVED',
+    ]),
+    documentType: z.enum(documentTypes),
+    level: z.enum(['WARN', 'BLOCK']).default('WARN'),
+    notes: z.string().optional(),
+  })).min(1, 'Au moins une pièce'),
+});
+
+const numberingSelect = {
+  slug: true,
+  dossierPrefix: true,
+  dossierPadding: true,
+  dossierPerRegime: true,
+} as const;
+
+// ============================================
+// GET /api/settings/numbering
+// ============================================
+
+router.get('/numbering', async (req: Request, res: Response) => {
+  try {
+    const companyId = req.user!.companyId;
+    const year = sequenceYear();
+
+    const [settings, sequences] = await Promise.all([
+      prisma.company.findUniqueOrThrow({ where: { id: companyId }, select: numberingSelect }),
+      prisma.numberSequence.findMany({
+        where: { companyId, scope: { startsWith: 'DOSSIER' } },
+        orderBy: [{ year: 'desc' }, { scope: 'asc' }],
+      }),
+    ]);
+
+    const current = sequences.find(s => s.year === year && s.scope === dossierScope(settings, 'IM4'));
+
+    res.json({
+      success: true,
+      data: {
+        prefix: dossierPrefix(settings),
+        dossierPrefix: settings.dossierPrefix,
+        dossierPadding: settings.dossierPadding,
+        dossierPerRegime: settings.dossierPerRegime,
+        nextNumber: formatDossierNumber(settings, 'IM4', year, (current?.lastValue || 0) + 1),
+        sequences,
+      },
+    });
+  } catch (error) {
+    log.error('Get numbering settings error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// PATCH /api/settings/numbering
+// ============================================
+
+router.patch('/numbering', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const data = numberingSchema.parse(req.body);
+    const companyId = req.user!.companyId;
+
+    // Clearing the prefix falls back to the slug, which must be free too
+    if (data.dossierPrefix !== undefined) {
+      const { slug } = await prisma.company.findUniqueOrThrow({ where: { id: companyId }, select: { slug: true } });
+      const prefix = data.dossierPrefix ?? slug.toUpperCase();
+
+      if (await isDossierPrefixTaken(prisma, prefix, companyId)) {
+        return res.status(409).json({
+          success: false,
+          message: 'Ce préfixe est déjà utilisé',
+          code: 'PREFIX_TAKEN',
+        });
+      }
+    }
+
+    const settings = await prisma.company.update({
+      where: { id: companyId },
+      data,
+      select: numberingSelect,
+    });
+
+    log.audit('Numbering settings updated', { companyId, ...data });
+
+    res.json({
+      success: true,
+      data: {
+        ...settings,
+        nextNumber: formatDossierNumber(settings, 'IM4', sequenceYear(), 1),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Update numbering settings error', error);
+    res.status(500).json({ success: false, message: 'Erreur de mise à jour' });
+  }
+});
+
+// ============================================
+// PUT /api/settings/numbering/sequence
+// ============================================
+
+// Lets a company carry on from its paper register; counters only move forward
+router.put('/numbering/sequence', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const data = sequenceSchema.parse(req.body);
+    const companyId = req.user!.companyId;
+    const year = data.year ?? sequenceYear();
+
+    const settings = await prisma.company.findUniqueOrThrow({ where: { id: companyId }, select: numberingSelect });
+    const scope = dossierScope(settings, data.regime || 'IM4');
+
+    const current = await prisma.numberSequence.findUnique({
+      where: { companyId_scope_year: { companyId, scope, year } },
+    });
+
+    if (current && data.nextValue <= current.lastValue) {
+      return res.status(409).json({
+        success: false,
+        message: `Le numéro ${current.lastValue} a déjà été attribué`,
+        code: 'SEQUENCE_BACKWARDS',
+      });
+    }
+
+    const sequence = await prisma.numberSequence.upsert({
+      where: { companyId_scope_year: { companyId, scope, year } },
+      update: { lastValue: data.nextValue - 1 },
+      create: { companyId, scope, year, lastValue: data.nextValue - 1 },
+    });
+
+    log.audit('Dossier sequence set', { companyId, scope, year, nextValue: data.nextValue });
+
+    res.json({
+      success: true,
+      data: {
+        sequence,
+        nextNumber: formatDossierNumber(settings, data.regime || 'IM4', year, data.nextValue),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Set dossier sequence error', error);
+    res.status(500).json({ success: false, message: 'Erreur de mise à jour' });
+  }
+});
+
+// ============================================
+// GET /api/settings/checklist
+// ============================================
+
+router.get('/checklist', async (req: Request, res: Response) => {
+  try {
+    const rules = await prisma.documentRequirement.findMany({
+      where: { companyId: req.user!.companyId },
+      orderBy: [{ status: 'asc' }, { documentType: 'asc' }],
+    });
+
+    res.json({
+      success: true,
+      data: {
+        source: rules.length > 0 ? 'COMPANY' : 'DEFAULT',
+        rules: rules.length > 0 ? rules : DEFAULT_CHECKLIST,
+        labels: DOCUMENT_LABELS,
+      },
+    });
+  } catch (error) {
+    log.error('Get checklist error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// PUT /api/settings/checklist
+// ============================================
+
+// Replaces the whole checklist; the defaults stop applying
+router.put('/checklist', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const { rules } = checklistSchema.parse(req.body);
+    const companyId = req.user!.companyId;
+
+    const keys = rules.map(r => `${r.regime ?? '*'}:${r.documentType}`);
+    const duplicate = keys.find((k, i) => keys.indexOf(k) !== i);
+
+    if (duplicate) {
+      return res.status(400).json({
+        success: false,
+        message: `Pièce en double pour le même régime: ${duplicate}`,
+      });
+    }
+
+    await prisma.$transaction([
+      prisma.documentRequirement.deleteMany({ where: { companyId } }),
+      prisma.documentRequirement.createMany({
+        data: rules.map(r => ({ ...r, companyId })),
+      }),
+    ]);
+
+    log.audit('Document checklist updated', { companyId, rules: rules.length });
+
+    res.json({ success: true, data: { source: 'COMPANY', rules } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Update checklist error', error);
+    res.status(500).json({ success: false, message: 'Erreur de mise à jour' });
+  }
+});
+
+// ============================================
+// DELETE /api/settings/checklist
+// ============================================
+
+router.delete('/checklist', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const companyId = req.user!.companyId;
+
+    await prisma.documentRequirement.deleteMany({ where: { companyId } });
+
+    log.audit('Document checklist reset', { companyId });
+
+    res.json({ success: true, data: { source: 'DEFAULT', rules: DEFAULT_CHECKLIST } });
+  } catch (error) {
+    log.error('Reset checklist error', error);
+    res.status(500).json({ success: false, message: 'Erreur de suppression' });
+  }
+});
+
+export default router;
@@ -1,17 +1,77 @@
 // server/routes/shipments.ts
 
 import { Router, Request, Response } from 'express';
+import { DocumentType } from '@prisma/client';
 import { z } from 'zod';
 import { prisma } from '../config/prisma.js';
 import { log } from '../config/logger.js';
-import { auth, requireAgent } from '../middleware/auth.js';
+import { auth, requireStaff, requireAgent, requireAccountant } from '../middleware/auth.js';
+import { uploadFile } from '../middleware/upload.js';
+import {
+  checkTransition,
+  getNextStatuses,
+  canOverrideTransitions,
+  transitionHttpStatus,
+} from '../services/workflow.service.js';
+import { DUTY_KEYS, DutyKey, calculateDuties, dutyExpenseLines, findTariff } from '../services/customs.service.js';
+import { findRate } from '../services/exchange-rate.service.js';
+import { findClientByNif } from '../services/client.service.js';
+import { generateTrackingSecret } from '../services/tracking.service.js';
+import { evaluateChecklist, loadChecklist } from '../services/checklist.service.js';
+import { removeStored, sendDocument, storeUpload } from '../services/storage.service.js';
+import { findExpiringDocuments, versionChain } from '../services/document.service.js';
+import { PDF_KINDS, PdfKind, PdfShipment, renderShipmentPdf } from '../services/pdf.service.js';
+import { allocateDossierNumber } from '../services/numbering.service.js';
+import { syncGeneratedExpenses } from '../services/expense.service.js';
+import { checkContainerEvent, summarizeContainerStatuses, CONTAINER_EVENT_FLOW } from '../services/container.service.js';
+import { diffFields, hasFieldChanges } from '../utils/diff.js';
+import { isValidContainerNumber, normalizeContainerNumber } from '../utils/iso6346.js';
 
 const router = Router();
 router.use(auth);
+router.use(requireStaff);
 
 // Validation schemas
+const containerTypes = [
+  'DRY_20', 'DRY_40', 'DRY_40HC', 'REEFER_20', 'REEFER_40', 'REEFER_40HR',
+  'OPEN_TOP_20', 'OPEN_TOP_40', 'FLAT_RACK_20', 'FLAT_RACK_40',
+] as const;
+
+const containerSchema = z.object({
+  number: z.string()
+    .transform(normalizeContainerNumber)
+    .refine(isValidContainerNumber, 'Numéro de conteneur invalide (ISO 6346)'),
+  type: z.enum(containerTypes).optional(),
+  sealNumber: z.string().optional(),
+  grossWeight: z.number().optional(),
+  tareWeight: z.number().optional(),
+  packageCount: z.number().optional(),
+  description: z.string().optional(),
+  temperature: z.number().optional(),
+  condition: z.string().optional(),
+  damages: z.string().optional(),
+});
+
+const updateContainerSchema = containerSchema.partial().strict();
+
+const containerEventSchema = z.object({
+  type: z.enum(['DISCHARGED', 'GATE_OUT', 'DELIVERED', 'EMPTY_RETURNED']),
+  date: z.string()
+    .refine(v => !isNaN(Date.parse(v)), 'Date invalide')
+    .refine(v => Date.parse(v) <= Date.now(), 'La date ne peut pas être dans le futur')
+    .optional(),
+  eirReference: z.string().trim().optional(),
+  location: z.string().optional(),
+  notes: z.string().optional(),
+// The terminal hands over an EIR whenever a container leaves or comes back
+}).refine(e => !['GATE_OUT', 'EMPTY_RETURNED'].includes(e.type) || !!e.eirReference, {
+  message: 'Référence EIR requise',
+  path: ['eirReference'],
+});
+
 const createShipmentSchema = z.object({
-  clientName: z.string().min(1, 'Nom client requis'),
+  clientId: z.string().optional(),
+  clientName: z.string().min(1, 'Nom client requis').optional(),
   clientNif: z.string().optional(),
   clientPhone: z.string().optional(),
   clientAddress: z.string().optional(),
@@ -22,11 +82,12 @@ const createShipmentSchema = z.object({
   grossWeight: z.number().optional(),
   netWeight: z.number().optional(),
   cifValue: z.number().optional(),
-  cifCurrency: z.string().optional(),
+  cifCurrency: z.string().length(3).toUpperCase().optional(),
   fobValue: z.number().optional(),
   freightValue: z.number().optional(),
   insuranceValue: z.number().optional(),
   blNumber: z.string().optional(),
+  shippingLine: z.string().optional(),
   vesselName: z.string().optional(),
   voyageNumber: z.string().optional(),
   portOfLoading: z.string().optional(),
@@ -36,23 +97,77 @@ const createShipmentSchema = z.object({
   supplierCountry: z.string().optional(),
   customsRegime: z.enum(['IM4', 'IM5', 'IM6', 'IM7', 'EX1', 'EX2', 'TR']).optional(),
   ddiNumber: z.string().optional(),
-  containers: z.array(z.object({
-    number: z.string(),
-    type: z.string(),
-    sealNumber: z.string().optional(),
-    grossWeight: z.number().optional(),
-    packageCount: z.number().optional(),
-    description: z.string().optional(),
-    temperature: z.number().optional(),
-  })).optional(),
+  containers: z.array(containerSchema)
+    .refine(
+      list => new Set(list.map(c => c.number)).size === list.length,
+      'Numéro de conteneur en double'
+    )
+    .optional(),
 });
 
-// Helper
-const generateTrackingNumber = (): string => {
-  const timestamp = Date.now().toString(36).toUpperCase();
-  const random = Math.random().toString(36).substring(2, 6).toUpperCase();
-  return `TR-${timestamp}-${random}`;
-};
+const shipmentStatuses = [
+  'DRAFT', 'PENDING', 'ARRIVED', 'DDI_OBTAINED', 'DECLARATION_FILED', 'LIQUIDATION_ISSUED',
+  'CUSTOMS_PAID', 'BAE_ISSUED', 'TERMINAL_PAID', 'DO_RELEASED', 'EXIT_NOTE_ISSUED',
+  'IN_DELIVERY', 'DELIVERED', 'INVOICED', 'CLOSED', 'ARCHIVED',
+] as const;
+
+// Fields an agent may edit after creation. Identity fields (company, creator,
+// tracking number) and computed duties are deliberately absent.
+const updateShipmentSchema = createShipmentSchema
+  .omit({ containers: true })
+  .extend({
+    internalRef: z.string().optional(),
+    doNumber: z.string().optional(),
+    declarationRef: z.string().optional(),
+    declarationNumber: z.string().optional(),
+    liquidationNumber: z.string().optional(),
+    quittanceNumber: z.string().optional(),
+    baeNumber: z.string().optional(),
+    bsNumber: z.string().optional(),
+    ata: z.string().optional(),
+    manifestNumber: z.string().optional(),
+    manifestYear: z.number().int().optional(),
+    supplierAddress: z.string().optional(),
+    customsOffice: z.string().optional(),
+    customsOfficeName: z.string().optional(),
+    declarantCode: z.string().optional(),
+    declarantName: z.string().optional(),
+    circuit: z.enum(['GREEN', 'YELLOW', 'RED']).optional(),
+    deliveryPlace: z.string().optional(),
+    deliveryDate: z.string().optional(),
+    deliveryDriver: z.string().optional(),
+    deliveryPhone: z.string().optional(),
+    deliveryTruck: z.string().optional(),
+    status: z.enum(shipmentStatuses).optional(),
+  })
+  .partial()
+  .strict();
+
+const liquidateSchema = z.object({
+  exchangeRate: z.number().positive().optional(),
+  date: z.string().refine(v => !isNaN(Date.parse(v)), 'Date invalide').optional(),
+  dryRun: z.boolean().optional(),
+});
+
+// Multipart fields: empty inputs arrive as ''
+const formDate = z.string().refine(v => !v || !isNaN(Date.parse(v)), 'Date invalide').optional();
+
+const documentSchema = z.object({
+  name: z.string().optional(),
+  url: z.string().optional(),
+  type: z.nativeEnum(DocumentType).optional(),
+  reference: z.string().optional(),
+  issueDate: formDate,
+  expiryDate: formDate,
+  notes: z.string().optional(),
+  supersedesId: z.string().optional(),
+});
+
+const transitionSchema = z.object({
+  status: z.enum(shipmentStatuses),
+  comment: z.string().max(500).optional(),
+  force: z.boolean().optional(),
+});
 
 // ============================================
 // GET /api/shipments
@@ -67,6 +182,10 @@ router.get('/', async (req: Request, res: Response) => {
 
     const where: any = { companyId: req.user!.companyId };
 
+    if (req.query.clientId) {
+      where.clientId = req.query.clientId as string;
+    }
+
     if (status && status !== 'ALL') {
       where.status = status;
     }
@@ -120,7 +239,7 @@ router.get('/stats', async (req: Request, res: Response) => {
   try {
     const companyId = req.user!.companyId;
 
-    const [total, pending, delivered, expenses] = await Promise.all([
+    const [total, pending, delivered, expenses, containerGroups, expiringDocuments] = await Promise.all([
       prisma.shipment.count({ where: { companyId } }),
       prisma.shipment.count({ where: { companyId, status: 'PENDING' } }),
       prisma.shipment.count({ where: { companyId, status: 'DELIVERED' } }),
@@ -129,6 +248,12 @@ router.get('/stats', async (req: Request, res: Response) => {
         where: { shipment: { companyId } },
         _sum: { amount: true },
       }),
+      prisma.container.groupBy({
+        by: ['status'],
+        where: { shipment: { companyId, status: { not: 'ARCHIVED' } } },
+        _count: { _all: true },
+      }),
+      findExpiringDocuments(companyId, 7),
     ]);
 
     const inProgress = await prisma.shipment.count({
@@ -175,9 +300,17 @@ router.get('/stats', async (req: Request, res: Response) => {
             balance: totalProvisions - paidDisbursements,
             unpaid: totalDisbursements - paidDisbursements,
           },
-          containers: { total: 0, atPort: 0, inTransit: 0, delivered: 0 },
+          containers: summarizeContainerStatuses(containerGroups),
           recentShipments,
-          alerts: [],
+          alerts: expiringDocuments.map(doc => ({
+            type: doc.expired ? 'DOCUMENT_EXPIRED' : 'DOCUMENT_EXPIRING',
+            message: doc.expired
+              ? `${doc.name} expiré depuis ${-doc.daysLeft} jour(s)`
+              : `${doc.name} expire dans ${doc.daysLeft} jour(s)`,
+            documentId: doc.id,
+            shipment: doc.shipment,
+            expiryDate: doc.expiryDate,
+          })),
         },
       },
     });
@@ -193,17 +326,24 @@ router.get('/stats', async (req: Request, res: Response) => {
 
 router.get('/:id', async (req: Request, res: Response) => {
   try {
-    const shipment = await prisma.shipment.findFirst({
-      where: { id: req.params.id, companyId: req.user!.companyId },
-      include: {
-        containers: true,
-        documents: { orderBy: { createdAt: 'desc' } },
-        expenses: { orderBy: { createdAt: 'desc' } },
-        timeline: { orderBy: { date: 'desc' } },
-        createdBy: { select: { id: true, name: true } },
-        client: true,
-      },
-    });
+    const [shipment, checklist] = await Promise.all([
+      prisma.shipment.findFirst({
+        where: { id: req.params.id, companyId: req.user!.companyId },
+        include: {
+          containers: true,
+          documents: { orderBy: { createdAt: 'desc' } },
+          expenses: { orderBy: { createdAt: 'desc' } },
+          invoices: {
+            select: { id: true, number: true, type: true, status: true, issueDate: true, totalAmount: true, amountDue: true },
+            orderBy: { createdAt: 'desc' },
+          },
+          timeline: { orderBy: { date: 'desc' } },
+          createdBy: { select: { id: true, name: true } },
+          client: true,
+        },
+      }),
+      loadChecklist(req.user!.companyId),
+    ]);
 
     if (!shipment) {
       return res.status(404).json({
@@ -212,7 +352,10 @@ router.get('/:id', async (req: Request, res: Response) => {
       });
     }
 
-    res.json({ success: true, data: { shipment } });
+    res.json({
+      success: true,
+      data: { shipment, checklist: evaluateChecklist(shipment, checklist) },
+    });
   } catch (error) {
     log.error('Get shipment error', error);
     res.status(500).json({ success: false, message: 'Erreur serveur' });
@@ -226,17 +369,59 @@ router.get('/:id', async (req: Request, res: Response) => {
 router.post('/', requireAgent, async (req: Request, res: Response) => {
   try {
     const data = createShipmentSchema.parse(req.body);
-    const trackingNumber = generateTrackingNumber();
+    const cifCurrency = data.cifCurrency || 'USD';
+
+    const exchange = await findRate(req.user!.companyId, cifCurrency);
+
+    if (!exchange && data.cifValue !== undefined) {
+      return res.status(422).json({
+        success: false,
+        message: `Aucun taux de change ${cifCurrency} en vigueur`,
+        code: 'EXCHANGE_RATE_NOT_FOUND',
+      });
+    }
+
+    // Link to a client record: explicit id first, else match by NIF
+    let client = null;
+    if (data.clientId) {
+      client = await prisma.client.findFirst({
+        where: { id: data.clientId, companyId: req.user!.companyId },
+      });
+
+      if (!client) {
+        return res.status(404).json({
+          success: false,
+          message: 'Client non trouvé',
+        });
+      }
+    } else if (data.clientNif) {
+      client = await findClientByNif(req.user!.companyId, data.clientNif);
+    }
+
+    const clientName = data.clientName || client?.name;
+
+    if (!clientName) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: [{ field: 'clientName', message: 'Nom client requis' }],
+      });
+    }
 
-    const shipment = await prisma.shipment.create({
+    const customsRegime = data.customsRegime || 'IM4';
+
+    // Number and dossier are written together so a failed create leaves no gap
+    const shipment = await prisma.$transaction(async (tx) => tx.shipment.create({
       data: {
-        trackingNumber,
+        trackingNumber: await allocateDossierNumber(tx, req.user!.companyId, customsRegime),
+        trackingSecret: generateTrackingSecret(),
         companyId: req.user!.companyId,
         createdById: req.user!.id,
-        clientName: data.clientName,
-        clientNif: data.clientNif,
-        clientPhone: data.clientPhone,
-        clientAddress: data.clientAddress,
+        clientId: client?.id,
+        clientName,
+        clientNif: data.clientNif ?? client?.nif,
+        clientPhone: data.clientPhone ?? client?.phone,
+        clientAddress: data.clientAddress ?? client?.address,
         description: data.description,
         hsCode: data.hsCode,
         packaging: data.packaging,
@@ -244,11 +429,14 @@ router.post('/', requireAgent, async (req: Request, res: Response) => {
         grossWeight: data.grossWeight,
         netWeight: data.netWeight,
         cifValue: data.cifValue,
-        cifCurrency: data.cifCurrency || 'USD',
+        cifCurrency,
+        exchangeRate: exchange?.rate,
+        cifValueGnf: exchange && data.cifValue !== undefined ? Math.round(data.cifValue * exchange.rate) : undefined,
         fobValue: data.fobValue,
         freightValue: data.freightValue,
         insuranceValue: data.insuranceValue,
         blNumber: data.blNumber,
+        shippingLine: data.shippingLine,
         vesselName: data.vesselName,
         voyageNumber: data.voyageNumber,
         portOfLoading: data.portOfLoading,
@@ -256,17 +444,20 @@ router.post('/', requireAgent, async (req: Request, res: Response) => {
         eta: data.eta ? new Date(data.eta) : undefined,
         supplierName: data.supplierName,
         supplierCountry: data.supplierCountry,
-        customsRegime: data.customsRegime as any || 'IM4',
+        customsRegime,
         ddiNumber: data.ddiNumber,
         containers: data.containers && data.containers.length > 0 ? {
           create: data.containers.map(c => ({
             number: c.number,
-            type: c.type as any || 'DRY_40HC',
+            type: c.type || 'DRY_40HC',
             sealNumber: c.sealNumber,
             grossWeight: c.grossWeight,
+            tareWeight: c.tareWeight,
             packageCount: c.packageCount,
             description: c.description,
             temperature: c.temperature,
+            condition: c.condition,
+            damages: c.damages,
           })),
         } : undefined,
         timeline: {
@@ -278,9 +469,9 @@ router.post('/', requireAgent, async (req: Request, res: Response) => {
         },
       },
       include: { containers: true },
-    });
+    }));
 
-    log.audit('Shipment created', { shipmentId: shipment.id, trackingNumber });
+    log.audit('Shipment created', { shipmentId: shipment.id, trackingNumber: shipment.trackingNumber, clientId: client?.id });
 
     res.status(201).json({ success: true, data: { shipment } });
   } catch (error) {
@@ -302,8 +493,11 @@ router.post('/', requireAgent, async (req: Request, res: Response) => {
 
 router.patch('/:id', requireAgent, async (req: Request, res: Response) => {
   try {
+    const { eta, ata, deliveryDate, ...fields } = updateShipmentSchema.parse(req.body);
+
     const shipment = await prisma.shipment.findFirst({
       where: { id: req.params.id, companyId: req.user!.companyId },
+      include: { documents: { select: { type: true } } },
     });
 
     if (!shipment) {
@@ -313,34 +507,272 @@ router.patch('/:id', requireAgent, async (req: Request, res: Response) => {
       });
     }
 
-    const updated = await prisma.shipment.update({
-      where: { id: req.params.id },
+    if (fields.clientId && fields.clientId !== shipment.clientId) {
+      const client = await prisma.client.findFirst({
+        where: { id: fields.clientId, companyId: req.user!.companyId },
+      });
+
+      if (!client) {
+        return res.status(404).json({
+          success: false,
+          message: 'Client non trouvé',
+        });
+      }
+    }
+
+    const { documents, ...current } = shipment;
+    const data: typeof fields & {
+      eta?: Date;
+      ata?: Date;
+      deliveryDate?: Date;
+      exchangeRate?: number;
+      cifValueGnf?: number;
+    } = {
+      ...fields,
+      eta: eta ? new Date(eta) : undefined,
+      ata: ata ? new Date(ata) : undefined,
+      deliveryDate: deliveryDate ? new Date(deliveryDate) : undefined,
+    };
+
+    // Keep the GNF value in step with the CIF value and currency
+    if (data.cifValue !== undefined || data.cifCurrency !== undefined) {
+      const currency = data.cifCurrency || current.cifCurrency || 'USD';
+      const cifValue = data.cifValue ?? current.cifValue;
+      const exchange = await findRate(req.user!.companyId, currency);
+
+      if (!exchange) {
+        return res.status(422).json({
+          success: false,
+          message: `Aucun taux de change ${currency} en vigueur`,
+          code: 'EXCHANGE_RATE_NOT_FOUND',
+        });
+      }
+
+      data.exchangeRate = exchange.rate;
+      if (cifValue !== null) data.cifValueGnf = Math.round(cifValue * exchange.rate);
+    }
+
+    // Status changes must follow the workflow
+    const statusChanged = !!data.status && data.status !== shipment.status;
+    let warnings: { code: string; message: string }[] = [];
+    if (statusChanged) {
+      const check = checkTransition(
+        { ...current, ...fields, ata: data.ata ?? current.ata, status: current.status, documents },
+        data.status!,
+        req.user!.role,
+        { checklist: await loadChecklist(req.user!.companyId) }
+      );
+
+      if (!check.allowed) {
+        return res.status(transitionHttpStatus(check.code)).json({
+          success: false,
+          message: check.message,
+          code: check.code,
+          missing: check.missing,
+        });
+      }
+      warnings = check.warnings;
+    }
+
+    const changes = diffFields(current, data);
+
+    if (changes.length === 0) {
+      return res.json({ success: true, data: { shipment: current, changes } });
+    }
+
+    const [updated] = await prisma.$transaction([
+      prisma.shipment.update({
+        where: { id: shipment.id },
+        data,
+        include: { containers: true },
+      }),
+      prisma.auditLog.create({
+        data: {
+          action: 'SHIPMENT_UPDATED',
+          entity: 'Shipment',
+          entityId: shipment.id,
+          details: { changes },
+          ipAddress: req.ip,
+          userAgent: req.get('user-agent'),
+          userId: req.user!.id,
+        },
+      }),
+      prisma.timelineEvent.create({
+        data: {
+          shipmentId: shipment.id,
+          action: statusChanged ? `Statut changé: ${data.status}` : 'Dossier modifié',
+          description: changes.map(c => c.field).join(', '),
+          userId: req.user!.id,
+          userName: req.user!.name,
+        },
+      }),
+    ]);
+
+    log.audit('Shipment updated', { shipmentId: shipment.id, fields: changes.map(c => c.field) });
+
+    res.json({ success: true, data: { shipment: updated, changes, warnings } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Update shipment error', error);
+    res.status(500).json({ success: false, message: 'Erreur de mise à jour' });
+  }
+});
+
+// ============================================
+// GET /api/shipments/:id/history
+// ============================================
+
+router.get('/:id/history', async (req: Request, res: Response) => {
+  try {
+    const { field } = req.query;
+
+    const shipment = await prisma.shipment.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+      select: { id: true },
+    });
+
+    if (!shipment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Dossier non trouvé',
+      });
+    }
+
+    const logs = await prisma.auditLog.findMany({
+      where: { entity: 'Shipment', entityId: shipment.id },
+      include: { user: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    // Flatten to one row per field change
+    const history = logs.flatMap(entry => {
+      const changes = hasFieldChanges(entry.details) ? entry.details.changes : [];
+      return changes
+        .filter(c => !field || c.field === field)
+        .map(c => ({
+          field: c.field,
+          from: c.from,
+          to: c.to,
+          action: entry.action,
+          date: entry.createdAt,
+          user: entry.user,
+        }));
+    });
+
+    res.json({ success: true, data: { history } });
+  } catch (error) {
+    log.error('Get shipment history error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// GET /api/shipments/:id/transitions
+// ============================================
+
+router.get('/:id/transitions', async (req: Request, res: Response) => {
+  try {
+    const [shipment, checklist] = await Promise.all([
+      prisma.shipment.findFirst({
+        where: { id: req.params.id, companyId: req.user!.companyId },
+        include: { documents: { select: { type: true } } },
+      }),
+      loadChecklist(req.user!.companyId),
+    ]);
+
+    if (!shipment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Dossier non trouvé',
+      });
+    }
+
+    res.json({
+      success: true,
       data: {
-        ...req.body,
-        eta: req.body.eta ? new Date(req.body.eta) : undefined,
-        ata: req.body.ata ? new Date(req.body.ata) : undefined,
-        deliveryDate: req.body.deliveryDate ? new Date(req.body.deliveryDate) : undefined,
+        current: shipment.status,
+        next: getNextStatuses(shipment, req.user!.role, checklist),
+        canOverride: canOverrideTransitions(req.user!.role),
       },
-      include: { containers: true },
     });
+  } catch (error) {
+    log.error('Get transitions error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/shipments/:id/transitions
+// ============================================
+
+router.post('/:id/transitions', requireAgent, async (req: Request, res: Response) => {
+  try {
+    const { status, comment, force } = transitionSchema.parse(req.body);
+
+    const shipment = await prisma.shipment.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+      include: { documents: { select: { type: true } } },
+    });
+
+    if (!shipment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Dossier non trouvé',
+      });
+    }
+
+    const checklist = await loadChecklist(req.user!.companyId);
+    const check = checkTransition(shipment, status, req.user!.role, { force, checklist });
+
+    if (!check.allowed) {
+      return res.status(transitionHttpStatus(check.code)).json({
+        success: false,
+        message: check.message,
+        code: check.code,
+        missing: check.missing,
+      });
+    }
 
-    // Add timeline event for status change
-    if (req.body.status && req.body.status !== shipment.status) {
-      await prisma.timelineEvent.create({
+    const [updated] = await prisma.$transaction([
+      prisma.shipment.update({
+        where: { id: shipment.id },
+        data: { status },
+        include: { containers: true },
+      }),
+      prisma.timelineEvent.create({
         data: {
           shipmentId: shipment.id,
-          action: `Statut changé: ${req.body.status}`,
+          action: `Statut changé: ${status}`,
+          description: comment,
           userId: req.user!.id,
           userName: req.user!.name,
         },
-      });
-    }
+      }),
+    ]);
 
-    log.audit('Shipment updated', { shipmentId: shipment.id });
+    log.audit('Shipment status changed', {
+      shipmentId: shipment.id,
+      from: shipment.status,
+      to: status,
+      forced: !!force,
+    });
 
-    res.json({ success: true, data: { shipment: updated } });
+    res.json({ success: true, data: { shipment: updated, warnings: check.warnings } });
   } catch (error) {
-    log.error('Update shipment error', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Transition shipment error', error);
     res.status(500).json({ success: false, message: 'Erreur de mise à jour' });
   }
 });
@@ -378,22 +810,16 @@ router.delete('/:id', requireAgent, async (req: Request, res: Response) => {
 });
 
 // ============================================
-// POST /api/shipments/:id/documents
+// POST /api/shipments/:id/liquidate
 // ============================================
 
-router.post('/:id/documents', requireAgent, async (req: Request, res: Response) => {
+router.post('/:id/liquidate', requireAccountant, async (req: Request, res: Response) => {
   try {
-    const { name, type, url, reference, issueDate } = req.body;
-
-    if (!name || !type || !url) {
-      return res.status(400).json({
-        success: false,
-        message: 'Nom, type et URL requis',
-      });
-    }
+    const data = liquidateSchema.parse(req.body);
+    const companyId = req.user!.companyId;
 
     const shipment = await prisma.shipment.findFirst({
-      where: { id: req.params.id, companyId: req.user!.companyId },
+      where: { id: req.params.id, companyId },
     });
 
     if (!shipment) {
@@ -403,47 +829,826 @@ router.post('/:id/documents', requireAgent, async (req: Request, res: Response)
       });
     }
 
-    const document = await prisma.document.create({
-      data: {
-        shipmentId: shipment.id,
-        name,
-        type,
-        url,
-        reference,
-        issueDate: issueDate ? new Date(issueDate) : undefined,
-      },
+    if (!shipment.cifValue || !shipment.hsCode) {
+      return res.status(422).json({
+        success: false,
+        message: 'Valeur CAF et code SH requis pour la liquidation',
+        code: 'LIQUIDATION_DATA_MISSING',
+      });
+    }
+
+    // Tariff in force on arrival unless another date is given
+    const date = data.date ? new Date(data.date) : shipment.ata || shipment.createdAt;
+    const tariff = await findTariff(companyId, shipment.hsCode, date);
+
+    if (!tariff) {
+      return res.status(404).json({
+        success: false,
+        message: `Code SH ${shipment.hsCode} absent du tarif`,
+        code: 'TARIFF_NOT_FOUND',
+      });
+    }
+
+    const currency = shipment.cifCurrency || 'USD';
+    const exchangeRate = data.exchangeRate || (await findRate(companyId, currency, date))?.rate;
+
+    if (!exchangeRate) {
+      return res.status(422).json({
+        success: false,
+        message: `Aucun taux de change ${currency} en vigueur`,
+        code: 'EXCHANGE_RATE_NOT_FOUND',
+      });
+    }
+    const cifValueGnf = Math.round(shipment.cifValue * exchangeRate);
+    const breakdown = calculateDuties(cifValueGnf, tariff, shipment.customsRegime);
+
+    if (data.dryRun) {
+      return res.json({ success: true, data: { exchangeRate, cifValueGnf, breakdown } });
+    }
+
+    // Duty fields on the dossier hold what is payable under its regime
+    const payable = Object.fromEntries(
+      DUTY_KEYS.map(key => [key, breakdown[key].treatment === 'PAYABLE' ? breakdown[key].amount : 0])
+    ) as Record<DutyKey, number>;
+
+    const [updated, expenses] = await prisma.$transaction(async (tx) => {
+      const updated = await tx.shipment.update({
+        where: { id: shipment.id },
+        data: {
+          exchangeRate,
+          cifValueGnf,
+          dutyDD: payable.dd,
+          dutyRTL: payable.rtl,
+          dutyPC: payable.pc,
+          dutyCA: payable.ca,
+          dutyExcise: payable.excise,
+          dutyTVA: payable.tva,
+          dutyBFU: payable.bfu,
+          dutyExport: payable.exportDuty,
+          totalDuties: breakdown.totalDuties,
+          suspendedDuties: breakdown.suspendedDuties,
+          guaranteeAmount: breakdown.guarantee,
+          liquidatedAt: new Date(),
+        },
+      });
+
+      const expenses = await syncGeneratedExpenses(tx, shipment.id, 'LIQUIDATION', dutyExpenseLines(breakdown));
+
+      await tx.timelineEvent.create({
+        data: {
+          shipmentId: shipment.id,
+          action: shipment.liquidatedAt ? 'Liquidation recalculée' : 'Liquidation calculée',
+          description: `Total droits: ${breakdown.totalDuties.toLocaleString('fr-FR')} GNF`,
+          userId: req.user!.id,
+          userName: req.user!.name,
+        },
+      });
+
+      return [updated, expenses] as const;
     });
 
-    log.audit('Document added', { shipmentId: shipment.id, documentId: document.id });
+    log.audit('Shipment liquidated', {
+      shipmentId: shipment.id,
+      totalDuties: breakdown.totalDuties,
+      skipped: expenses.skipped,
+    });
 
-    res.status(201).json({ success: true, data: { document } });
+    res.json({ success: true, data: { shipment: updated, breakdown, expenses } });
   } catch (error) {
-    log.error('Add document error', error);
-    res.status(500).json({ success: false, message: 'Erreur d\'ajout' });
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Liquidate shipment error', error);
+    res.status(500).json({ success: false, message: 'Erreur de calcul' });
   }
 });
 
 // ============================================
-// DELETE /api/shipments/:id/documents/:docId
+// GET /api/shipments/:id/containers
 // ============================================
 
-router.delete('/:id/documents/:docId', requireAgent, async (req: Request, res: Response) => {
+router.get('/:id/containers', async (req: Request, res: Response) => {
   try {
-    const document = await prisma.document.findFirst({
-      where: {
-        id: req.params.docId,
-        shipment: { id: req.params.id, companyId: req.user!.companyId },
-      },
+    const shipment = await prisma.shipment.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+      include: { containers: { orderBy: { createdAt: 'asc' } } },
     });
 
-    if (!document) {
+    if (!shipment) {
       return res.status(404).json({
         success: false,
-        message: 'Document non trouvé',
+        message: 'Dossier non trouvé',
       });
     }
 
-    await prisma.document.delete({ where: { id: document.id } });
+    res.json({ success: true, data: { containers: shipment.containers } });
+  } catch (error) {
+    log.error('Get containers error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/shipments/:id/containers
+// ============================================
+
+router.post('/:id/containers', requireAgent, async (req: Request, res: Response) => {
+  try {
+    const data = containerSchema.parse(req.body);
+
+    const shipment = await prisma.shipment.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+    });
+
+    if (!shipment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Dossier non trouvé',
+      });
+    }
+
+    const existing = await prisma.container.findFirst({
+      where: { shipmentId: shipment.id, number: data.number },
+    });
+
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        message: 'Ce conteneur existe déjà dans le dossier',
+      });
+    }
+
+    const container = await prisma.container.create({
+      data: {
+        ...data,
+        type: data.type || 'DRY_40HC',
+        shipmentId: shipment.id,
+      },
+    });
+
+    await prisma.timelineEvent.create({
+      data: {
+        shipmentId: shipment.id,
+        action: `Conteneur ajouté: ${container.number}`,
+        userId: req.user!.id,
+        userName: req.user!.name,
+      },
+    });
+
+    log.audit('Container added', { shipmentId: shipment.id, containerId: container.id });
+
+    res.status(201).json({ success: true, data: { container } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Add container error', error);
+    res.status(500).json({ success: false, message: 'Erreur d\'ajout' });
+  }
+});
+
+// ============================================
+// PATCH /api/shipments/:id/containers/:containerId
+// ============================================
+
+router.patch('/:id/containers/:containerId', requireAgent, async (req: Request, res: Response) => {
+  try {
+    const data = updateContainerSchema.parse(req.body);
+
+    const container = await prisma.container.findFirst({
+      where: {
+        id: req.params.containerId,
+        shipment: { id: req.params.id, companyId: req.user!.companyId },
+      },
+    });
+
+    if (!container) {
+      return res.status(404).json({
+        success: false,
+        message: 'Conteneur non trouvé',
+      });
+    }
+
+    if (data.number && data.number !== container.number) {
+      const duplicate = await prisma.container.findFirst({
+        where: { shipmentId: container.shipmentId, number: data.number },
+      });
+
+      if (duplicate) {
+        return res.status(409).json({
+          success: false,
+          message: 'Ce conteneur existe déjà dans le dossier',
+        });
+      }
+    }
+
+    const updated = await prisma.container.update({
+      where: { id: container.id },
+      data,
+    });
+
+    log.audit('Container updated', { containerId: container.id });
+
+    res.json({ success: true, data: { container: updated } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Update container error', error);
+    res.status(500).json({ success: false, message: 'Erreur de mise à jour' });
+  }
+});
+
+// ============================================
+// DELETE /api/shipments/:id/containers/:containerId
+// ============================================
+
+router.delete('/:id/containers/:containerId', requireAgent, async (req: Request, res: Response) => {
+  try {
+    const container = await prisma.container.findFirst({
+      where: {
+        id: req.params.containerId,
+        shipment: { id: req.params.id, companyId: req.user!.companyId },
+      },
+    });
+
+    if (!container) {
+      return res.status(404).json({
+        success: false,
+        message: 'Conteneur non trouvé',
+      });
+    }
+
+    await prisma.container.delete({ where: { id: container.id } });
+
+    await prisma.timelineEvent.create({
+      data: {
+        shipmentId: container.shipmentId,
+        action: `Conteneur retiré: ${container.number}`,
+        userId: req.user!.id,
+        userName: req.user!.name,
+      },
+    });
+
+    log.audit('Container deleted', { containerId: container.id });
+
+    res.json({ success: true });
+  } catch (error) {
+    log.error('Delete container error', error);
+    res.status(500).json({ success: false, message: 'Erreur de suppression' });
+  }
+});
+
+// ============================================
+// GET /api/shipments/:id/containers/:containerId/events
+// ============================================
+
+router.get('/:id/containers/:containerId/events', async (req: Request, res: Response) => {
+  try {
+    const container = await prisma.container.findFirst({
+      where: {
+        id: req.params.containerId,
+        shipment: { id: req.params.id, companyId: req.user!.companyId },
+      },
+      include: { events: { orderBy: { date: 'asc' } } },
+    });
+
+    if (!container) {
+      return res.status(404).json({
+        success: false,
+        message: 'Conteneur non trouvé',
+      });
+    }
+
+    res.json({ success: true, data: { container } });
+  } catch (error) {
+    log.error('Get container events error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/shipments/:id/containers/:containerId/events
+// ============================================
+
+router.post('/:id/containers/:containerId/events', requireAgent, async (req: Request, res: Response) => {
+  try {
+    const data = containerEventSchema.parse(req.body);
+    const date = data.date ? new Date(data.date) : new Date();
+
+    const container = await prisma.container.findFirst({
+      where: {
+        id: req.params.containerId,
+        shipment: { id: req.params.id, companyId: req.user!.companyId },
+      },
+    });
+
+    if (!container) {
+      return res.status(404).json({
+        success: false,
+        message: 'Conteneur non trouvé',
+      });
+    }
+
+    const check = checkContainerEvent(container, data.type, date);
+
+    if (!check.allowed) {
+      return res.status(409).json({
+        success: false,
+        message: check.message,
+        code: check.code,
+      });
+    }
+
+    const step = CONTAINER_EVENT_FLOW[data.type];
+
+    const [event, updated] = await prisma.$transaction([
+      prisma.containerEvent.create({
+        data: {
+          containerId: container.id,
+          type: data.type,
+          date,
+          eirReference: data.eirReference,
+          location: data.location,
+          notes: data.notes,
+          userId: req.user!.id,
+          userName: req.user!.name,
+        },
+      }),
+      prisma.container.update({
+        where: { id: container.id },
+        data: { status: step.to, [step.dateField]: date },
+      }),
+      prisma.timelineEvent.create({
+        data: {
+          shipmentId: container.shipmentId,
+          action: `${step.label}: ${container.number}`,
+          description: data.eirReference ? `EIR ${data.eirReference}` : undefined,
+          date,
+          userId: req.user!.id,
+          userName: req.user!.name,
+        },
+      }),
+    ]);
+
+    log.audit('Container event recorded', { containerId: container.id, type: data.type });
+
+    res.status(201).json({ success: true, data: { event, container: updated } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Add container event error', error);
+    res.status(500).json({ success: false, message: 'Erreur d\'ajout' });
+  }
+});
+
+// ============================================
+// DELETE /api/shipments/:id/containers/:containerId/events/:eventId
+// ============================================
+
+// Only the latest event can be undone: the container goes back one step
+router.delete('/:id/containers/:containerId/events/:eventId', requireAgent, async (req: Request, res: Response) => {
+  try {
+    const container = await prisma.container.findFirst({
+      where: {
+        id: req.params.containerId,
+        shipment: { id: req.params.id, companyId: req.user!.companyId },
+      },
+      include: { events: { orderBy: { createdAt: 'desc' }, take: 1 } },
+    });
+
+    if (!container) {
+      return res.status(404).json({
+        success: false,
+        message: 'Conteneur non trouvé',
+      });
+    }
+
+    const [event] = container.events;
+
+    if (!event || event.id !== req.params.eventId) {
+      return res.status(409).json({
+        success: false,
+        message: 'Seul le dernier événement du conteneur peut être annulé',
+        code: 'NOT_LAST_EVENT',
+      });
+    }
+
+    const step = CONTAINER_EVENT_FLOW[event.type];
+
+    if (container.status !== step.to) {
+      return res.status(409).json({
+        success: false,
+        message: `Événement ${event.type} incohérent avec le statut ${container.status}`,
+        code: 'INVALID_CONTAINER_EVENT',
+      });
+    }
+
+    const [, updated] = await prisma.$transaction([
+      prisma.containerEvent.delete({ where: { id: event.id } }),
+      prisma.container.update({
+        where: { id: container.id },
+        data: { status: step.from, [step.dateField]: null },
+      }),
+      prisma.timelineEvent.create({
+        data: {
+          shipmentId: container.shipmentId,
+          action: `Événement annulé: ${step.label} (${container.number})`,
+          userId: req.user!.id,
+          userName: req.user!.name,
+        },
+      }),
+    ]);
+
+    log.audit('Container event removed', { containerId: container.id, eventId: event.id, type: event.type });
+
+    res.json({ success: true, data: { container: updated } });
+  } catch (error) {
+    log.error('Remove container event error', error);
+    res.status(500).json({ success: false, message: 'Erreur de suppression' });
+  }
+});
+
+// ============================================
+// POST /api/shipments/:id/documents
+// ============================================
+
+router.post('/:id/documents', requireAgent, uploadFile, async (req: Request, res: Response) => {
+  try {
+    const { name, url, reference, issueDate, expiryDate, notes, supersedesId, ...data } = documentSchema.parse(req.body);
+    const file = req.file;
+
+    const shipment = await prisma.shipment.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+    });
+
+    if (!shipment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Dossier non trouvé',
+      });
+    }
+
+    // A new version replaces the current one and keeps its type
+    const previous = supersedesId
+      ? await prisma.document.findFirst({ where: { id: supersedesId, shipmentId: shipment.id } })
+      : null;
+
+    if (supersedesId && !previous) {
+      return res.status(404).json({
+        success: false,
+        message: 'Document remplacé non trouvé',
+      });
+    }
+
+    if (previous && !previous.isCurrent) {
+      return res.status(409).json({
+        success: false,
+        message: 'Ce document a déjà été remplacé par une version plus récente',
+        code: 'DOCUMENT_ALREADY_SUPERSEDED',
+      });
+    }
+
+    if (previous && data.type && data.type !== previous.type) {
+      return res.status(409).json({
+        success: false,
+        message: 'Une nouvelle version garde le type du document remplacé',
+        code: 'DOCUMENT_TYPE_MISMATCH',
+      });
+    }
+
+    const type = data.type || previous?.type;
+
+    if (!type || (!file && (!name || !url))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Type et fichier (ou nom et URL) requis',
+      });
+    }
+
+    const stored = file ? await storeUpload(req.user!.companyId, shipment.id, file) : null;
+
+    let document;
+    try {
+      document = await prisma.$transaction(async (tx) => {
+        if (previous) {
+          await tx.document.update({ where: { id: previous.id }, data: { isCurrent: false } });
+        }
+
+        const created = await tx.document.create({
+          data: {
+            shipmentId: shipment.id,
+            name: name || file!.originalname,
+            type,
+            url: url || '',
+            reference,
+            issueDate: issueDate ? new Date(issueDate) : undefined,
+            expiryDate: expiryDate ? new Date(expiryDate) : undefined,
+            notes,
+            ...stored,
+            uploadedById: stored ? req.user!.id : undefined,
+            version: previous ? previous.version + 1 : 1,
+            supersedesId: previous?.id,
+          },
+        });
+
+        // Stored files are served through the API, never from storage directly
+        return stored
+          ? tx.document.update({
+              where: { id: created.id },
+              data: { url: `/api/shipments/${shipment.id}/documents/${created.id}/download` },
+            })
+          : created;
+      });
+    } catch (error) {
+      await removeStored(stored?.storageKey ?? null);
+      throw error;
+    }
+
+    log.audit('Document added', {
+      shipmentId: shipment.id,
+      documentId: document.id,
+      supersedes: previous?.id,
+      size: document.size,
+      checksum: document.checksum,
+    });
+
+    res.status(201).json({ success: true, data: { document } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Add document error', error);
+    res.status(500).json({ success: false, message: 'Erreur d\'ajout' });
+  }
+});
+
+// ============================================
+// PDF generation helpers
+// ============================================
+
+const loadForPdf = (id: string, companyId: string) =>
+  prisma.shipment.findFirst({
+    where: { id, companyId },
+    include: {
+      company: true,
+      containers: { orderBy: { createdAt: 'asc' } },
+      expenses: { orderBy: { createdAt: 'asc' } },
+    },
+  });
+
+// Data a template cannot do without
+const missingForPdf = (kind: PdfKind, shipment: PdfShipment) => {
+  switch (kind) {
+    case 'release-request':
+      return shipment.containers.length === 0 ? 'Aucun conteneur sur ce dossier' : null;
+    case 'debit-note':
+      return shipment.expenses.some(e => e.type === 'DISBURSEMENT') ? null : 'Aucun débours sur ce dossier';
+    default:
+      return null;
+  }
+};
+
+// ============================================
+// GET /api/shipments/:id/pdf/:kind (preview)
+// ============================================
+
+router.get('/:id/pdf/:kind', async (req: Request, res: Response) => {
+  try {
+    const kind = req.params.kind as PdfKind;
+
+    if (!PDF_KINDS[kind]) {
+      return res.status(404).json({
+        success: false,
+        message: 'Modèle inconnu',
+      });
+    }
+
+    const shipment = await loadForPdf(req.params.id, req.user!.companyId);
+
+    if (!shipment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Dossier non trouvé',
+      });
+    }
+
+    const missing = missingForPdf(kind, shipment);
+    if (missing) {
+      return res.status(422).json({ success: false, message: missing, code: 'PDF_DATA_MISSING' });
+    }
+
+    const pdf = await renderShipmentPdf(kind, shipment);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Length', pdf.length);
+    res.setHeader('Content-Disposition', `inline; filename="${PDF_KINDS[kind].file}-${shipment.trackingNumber}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    log.error('Preview PDF error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/shipments/:id/pdf/:kind
+// ============================================
+
+// Renders the PDF and files it as a Document; a regenerated PDF becomes a
+// new version of the previous generated one.
+router.post('/:id/pdf/:kind', requireAgent, async (req: Request, res: Response) => {
+  try {
+    const kind = req.params.kind as PdfKind;
+
+    if (!PDF_KINDS[kind]) {
+      return res.status(404).json({
+        success: false,
+        message: 'Modèle inconnu',
+      });
+    }
+
+    const shipment = await loadForPdf(req.params.id, req.user!.companyId);
+
+    if (!shipment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Dossier non trouvé',
+      });
+    }
+
+    const missing = missingForPdf(kind, shipment);
+    if (missing) {
+      return res.status(422).json({ success: false, message: missing, code: 'PDF_DATA_MISSING' });
+    }
+
+    const { type, file } = PDF_KINDS[kind];
+    const pdf = await renderShipmentPdf(kind, shipment);
+    const stored = await storeUpload(req.user!.companyId, shipment.id, {
+      mimetype: 'application/pdf',
+      buffer: pdf,
+      size: pdf.length,
+    });
+
+    let document;
+    try {
+      document = await prisma.$transaction(async (tx) => {
+        const previous = await tx.document.findFirst({
+          where: { shipmentId: shipment.id, type, generated: true, isCurrent: true },
+        });
+
+        if (previous) {
+          await tx.document.update({ where: { id: previous.id }, data: { isCurrent: false } });
+        }
+
+        const created = await tx.document.create({
+          data: {
+            shipmentId: shipment.id,
+            type,
+            name: `${file}-${shipment.trackingNumber}.pdf`,
+            url: '',
+            issueDate: new Date(),
+            ...stored,
+            generated: true,
+            uploadedById: req.user!.id,
+            version: previous ? previous.version + 1 : 1,
+            supersedesId: previous?.id,
+          },
+        });
+
+        await tx.timelineEvent.create({
+          data: {
+            shipmentId: shipment.id,
+            action: `Document édité: ${PDF_KINDS[kind].title.toLowerCase()}`,
+            userId: req.user!.id,
+            userName: req.user!.name,
+          },
+        });
+
+        return tx.document.update({
+          where: { id: created.id },
+          data: { url: `/api/shipments/${shipment.id}/documents/${created.id}/download` },
+        });
+      });
+    } catch (error) {
+      await removeStored(stored.storageKey);
+      throw error;
+    }
+
+    log.audit('PDF generated', { shipmentId: shipment.id, kind, documentId: document.id });
+
+    res.status(201).json({ success: true, data: { document } });
+  } catch (error) {
+    log.error('Generate PDF error', error);
+    res.status(500).json({ success: false, message: 'Erreur de génération' });
+  }
+});
+
+// ============================================
+// GET /api/shipments/:id/documents/:docId/versions
+// ============================================
+
+router.get('/:id/documents/:docId/versions', async (req: Request, res: Response) => {
+  try {
+    const documents = await prisma.document.findMany({
+      where: { shipment: { id: req.params.id, companyId: req.user!.companyId } },
+    });
+
+    const versions = versionChain(documents, req.params.docId);
+
+    if (versions.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Document non trouvé',
+      });
+    }
+
+    res.json({ success: true, data: { versions } });
+  } catch (error) {
+    log.error('Get document versions error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// GET /api/shipments/:id/documents/:docId/download
+// ============================================
+
+router.get('/:id/documents/:docId/download', async (req: Request, res: Response) => {
+  try {
+    const document = await prisma.document.findFirst({
+      where: {
+        id: req.params.docId,
+        shipment: { id: req.params.id, companyId: req.user!.companyId },
+      },
+    });
+
+    if (!document) {
+      return res.status(404).json({
+        success: false,
+        message: 'Document non trouvé',
+      });
+    }
+
+    await sendDocument(res, document, req.query.download ? 'attachment' : 'inline');
+  } catch (error) {
+    log.error('Download document error', error);
+    if (!res.headersSent) res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// DELETE /api/shipments/:id/documents/:docId
+// ============================================
+
+router.delete('/:id/documents/:docId', requireAgent, async (req: Request, res: Response) => {
+  try {
+    const document = await prisma.document.findFirst({
+      where: {
+        id: req.params.docId,
+        shipment: { id: req.params.id, companyId: req.user!.companyId },
+      },
+    });
+
+    if (!document) {
+      return res.status(404).json({
+        success: false,
+        message: 'Document non trouvé',
+      });
+    }
+
+    // Keep the version chain intact around the removed document
+    await prisma.$transaction(async (tx) => {
+      const next = await tx.document.findUnique({ where: { supersedesId: document.id } });
+      await tx.document.delete({ where: { id: document.id } });
+
+      if (next) {
+        await tx.document.update({ where: { id: next.id }, data: { supersedesId: document.supersedesId } });
+      } else if (document.supersedesId) {
+        await tx.document.update({ where: { id: document.supersedesId }, data: { isCurrent: true } });
+      }
+    });
+    await removeStored(document.storageKey);
 
     log.audit('Document deleted', { documentId: document.id });
 
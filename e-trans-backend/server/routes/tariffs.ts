@@ -0,0 +1,437 @@
+// server/routes/tariffs.ts
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../config/prisma.js';
+import { log } from '../config/logger.js';
+import { auth, requireStaff, requireDirector } from '../middleware/auth.js';
+import { findTariff, leviesSchema, normalizeHsCode } from '../services/customs.service.js';
+import { applyTariffDiff, diffTariffs, parseTariffFile } from '../services/tariff-import.service.js';
+
+const router = Router();
+router.use(auth);
+router.use(requireStaff);
+
+// Validation schemas
+const tariffSchema = z.object({
+  hsCode: z.string()
+    .transform(normalizeHsCode)
+    .refine(v => /^\d{4,10}$/.test(v), 'Code SH invalide (4 à 10 chiffres)'),
+  description: z.string().min(1, 'Description requise'),
+  cetCategory: z.number().int().min(0).max(4),
+  vatExempt: z.boolean().optional(),
+  exciseRate: z.number().min(0).max(1).optional(),
+  exportRate: z.number().min(0).max(1).optional(),
+  levies: leviesSchema.optional(),
+  notes: z.string().optional(),
+});
+
+const importSchema = z.object({
+  format: z.enum(['csv', 'json']),
+  content: z.string().min(1, 'Fichier vide'),
+  fileName: z.string().optional(),
+  effectiveFrom: z.string().refine(v => !isNaN(Date.parse(v)), 'Date d\'entrée en vigueur invalide'),
+  removeMissing: z.boolean().optional(),
+  dryRun: z.boolean().optional(),
+});
+
+// ============================================
+// GET /api/tariffs
+// ============================================
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { page = '1', limit = '50' } = req.query;
+    const pageNum = Math.max(1, parseInt(page as string));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+    const skip = (pageNum - 1) * limitNum;
+
+    const where = { companyId: req.user!.companyId, effectiveTo: null };
+
+    const [tariffs, total] = await Promise.all([
+      prisma.tariffCode.findMany({
+        where,
+        orderBy: { hsCode: 'asc' },
+        skip,
+        take: limitNum,
+      }),
+      prisma.tariffCode.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        tariffs,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      },
+    });
+  } catch (error) {
+    log.error('Get tariffs error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// GET /api/tariffs/search?q=
+// ============================================
+
+router.get('/search', async (req: Request, res: Response) => {
+  try {
+    const q = ((req.query.q as string) || '').trim();
+
+    if (q.length < 2) {
+      return res.json({ success: true, data: { tariffs: [] } });
+    }
+
+    const where: any = { companyId: req.user!.companyId, effectiveTo: null };
+    const code = normalizeHsCode(q);
+
+    if (/^\d+$/.test(code)) {
+      where.hsCode = { startsWith: code };
+    } else {
+      // Every keyword must appear in the description
+      where.AND = q.split(/\s+/).filter(w => w.length > 1).map(word => ({
+        description: { contains: word, mode: 'insensitive' },
+      }));
+    }
+
+    const tariffs = await prisma.tariffCode.findMany({
+      where,
+      select: { id: true, hsCode: true, description: true, cetCategory: true, vatExempt: true },
+      orderBy: { hsCode: 'asc' },
+      take: 20,
+    });
+
+    res.json({ success: true, data: { tariffs } });
+  } catch (error) {
+    log.error('Search tariffs error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// GET /api/tariffs/history/:hsCode
+// ============================================
+
+router.get('/history/:hsCode', async (req: Request, res: Response) => {
+  try {
+    const versions = await prisma.tariffCode.findMany({
+      where: { companyId: req.user!.companyId, hsCode: normalizeHsCode(req.params.hsCode) },
+      orderBy: { effectiveFrom: 'desc' },
+    });
+
+    res.json({ success: true, data: { versions } });
+  } catch (error) {
+    log.error('Get tariff history error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// GET /api/tariffs/lookup/:hsCode?date=
+// ============================================
+
+router.get('/lookup/:hsCode', async (req: Request, res: Response) => {
+  try {
+    const date = req.query.date ? new Date(req.query.date as string) : new Date();
+
+    if (isNaN(date.getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: 'Date invalide',
+      });
+    }
+
+    const tariff = await findTariff(req.user!.companyId, req.params.hsCode, date);
+
+    if (!tariff) {
+      return res.status(404).json({
+        success: false,
+        message: 'Code SH absent du tarif',
+        code: 'TARIFF_NOT_FOUND',
+      });
+    }
+
+    res.json({ success: true, data: { tariff } });
+  } catch (error) {
+    log.error('Lookup tariff error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/tariffs
+// ============================================
+
+router.post('/', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const data = tariffSchema.parse(req.body);
+
+    const existing = await prisma.tariffCode.findFirst({
+      where: { companyId: req.user!.companyId, hsCode: data.hsCode, effectiveTo: null },
+    });
+
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        message: 'Ce code SH existe déjà',
+      });
+    }
+
+    const tariff = await prisma.tariffCode.create({
+      data: { ...data, companyId: req.user!.companyId },
+    });
+
+    log.audit('Tariff created', { tariffId: tariff.id, hsCode: tariff.hsCode });
+
+    res.status(201).json({ success: true, data: { tariff } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Create tariff error', error);
+    res.status(500).json({ success: false, message: 'Erreur de création' });
+  }
+});
+
+// ============================================
+// POST /api/tariffs/import
+// ============================================
+
+router.post('/import', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const data = importSchema.parse(req.body);
+    const companyId = req.user!.companyId;
+    const effectiveFrom = new Date(data.effectiveFrom);
+
+    let parsed;
+    try {
+      parsed = parseTariffFile(data.format, data.content);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Fichier illisible',
+      });
+    }
+
+    if (parsed.errors.length > 0) {
+      return res.status(422).json({
+        success: false,
+        message: `${parsed.errors.length} ligne(s) invalide(s)`,
+        code: 'IMPORT_INVALID_ROWS',
+        errors: parsed.errors,
+      });
+    }
+
+    const current = await prisma.tariffCode.findMany({
+      where: { companyId, effectiveTo: null },
+    });
+
+    const diff = diffTariffs(current, parsed.rows);
+
+    // A new version cannot start before the one it replaces, nor before an
+    // earlier version of a re-added code was closed
+    const replaced = [...diff.changed.map(c => c.current), ...(data.removeMissing ? diff.removed : [])];
+    const closed = diff.added.length > 0
+      ? await prisma.tariffCode.findMany({
+          where: {
+            companyId,
+            hsCode: { in: diff.added.map(r => r.hsCode) },
+            effectiveTo: { gt: effectiveFrom },
+          },
+        })
+      : [];
+    const conflicts = [...replaced.filter(t => t.effectiveFrom >= effectiveFrom), ...closed];
+
+    if (conflicts.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Date d\'entrée en vigueur antérieure à la version actuelle',
+        code: 'IMPORT_DATE_CONFLICT',
+        hsCodes: conflicts.map(t => t.hsCode),
+      });
+    }
+
+    const summary = {
+      added: diff.added.map(r => r.hsCode),
+      changed: diff.changed.map(c => ({ hsCode: c.row.hsCode, fields: c.fields })),
+      removed: data.removeMissing ? diff.removed.map(t => t.hsCode) : [],
+      unchanged: diff.unchanged,
+    };
+
+    if (!data.dryRun) {
+      await applyTariffDiff(companyId, diff, effectiveFrom, !!data.removeMissing);
+
+      await prisma.auditLog.create({
+        data: {
+          action: 'TARIFF_IMPORTED',
+          entity: 'TariffCode',
+          details: {
+            fileName: data.fileName,
+            effectiveFrom: effectiveFrom.toISOString(),
+            added: summary.added.length,
+            changed: summary.changed.length,
+            removed: summary.removed.length,
+            unchanged: summary.unchanged,
+          },
+          ipAddress: req.ip,
+          userAgent: req.get('user-agent'),
+          userId: req.user!.id,
+        },
+      });
+
+      log.audit('Tariff imported', {
+        companyId,
+        added: summary.added.length,
+        changed: summary.changed.length,
+        removed: summary.removed.length,
+      });
+    }
+
+    res.json({ success: true, data: { dryRun: !!data.dryRun, effectiveFrom, summary } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Import tariffs error', error);
+    res.status(500).json({ success: false, message: 'Erreur d\'import' });
+  }
+});
+
+// ============================================
+// PATCH /api/tariffs/:id
+// ============================================
+
+// Only the current version can change. Rates in force are never rewritten:
+// the version is closed now and the new rates start as a new version, so
+// older dossiers keep the rates of their date.
+router.patch('/:id', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const data = tariffSchema.omit({ hsCode: true }).partial().parse(req.body);
+
+    const tariff = await prisma.tariffCode.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+    });
+
+    if (!tariff) {
+      return res.status(404).json({
+        success: false,
+        message: 'Code SH non trouvé',
+      });
+    }
+
+    if (tariff.effectiveTo) {
+      return res.status(409).json({
+        success: false,
+        message: 'Version clôturée : seule la version en vigueur peut être modifiée',
+        code: 'TARIFF_VERSION_CLOSED',
+      });
+    }
+
+    const now = new Date();
+    const { description, notes, ...rates } = data;
+    const ratesChanged = Object.keys(rates).length > 0 && tariff.effectiveFrom <= now;
+
+    const updated = ratesChanged
+      ? await prisma.$transaction(async (tx) => {
+          await tx.tariffCode.update({ where: { id: tariff.id }, data: { effectiveTo: now } });
+          return tx.tariffCode.create({
+            data: {
+              hsCode: tariff.hsCode,
+              description: description ?? tariff.description,
+              cetCategory: rates.cetCategory ?? tariff.cetCategory,
+              vatExempt: rates.vatExempt ?? tariff.vatExempt,
+              exciseRate: rates.exciseRate ?? tariff.exciseRate,
+              exportRate: rates.exportRate ?? tariff.exportRate,
+              levies: rates.levies ?? tariff.levies ?? undefined,
+              notes: notes ?? tariff.notes,
+              effectiveFrom: now,
+              companyId: tariff.companyId,
+            },
+          });
+        })
+      : await prisma.tariffCode.update({
+          where: { id: tariff.id },
+          data,
+        });
+
+    log.audit('Tariff updated', { tariffId: updated.id, hsCode: tariff.hsCode, newVersion: ratesChanged });
+
+    res.json({ success: true, data: { tariff: updated } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Update tariff error', error);
+    res.status(500).json({ success: false, message: 'Erreur de mise à jour' });
+  }
+});
+
+// ============================================
+// DELETE /api/tariffs/:id
+// ============================================
+
+// The current version is closed now rather than deleted; a version not yet
+// in force is deleted and the one it replaced is reopened.
+router.delete('/:id', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const tariff = await prisma.tariffCode.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+    });
+
+    if (!tariff) {
+      return res.status(404).json({
+        success: false,
+        message: 'Code SH non trouvé',
+      });
+    }
+
+    if (tariff.effectiveTo) {
+      return res.status(409).json({
+        success: false,
+        message: 'Version clôturée : seule la version en vigueur peut être supprimée',
+        code: 'TARIFF_VERSION_CLOSED',
+      });
+    }
+
+    const now = new Date();
+
+    if (tariff.effectiveFrom > now) {
+      await prisma.$transaction([
+        prisma.tariffCode.delete({ where: { id: tariff.id } }),
+        prisma.tariffCode.updateMany({
+          where: { companyId: tariff.companyId, hsCode: tariff.hsCode, effectiveTo: tariff.effectiveFrom },
+          data: { effectiveTo: null },
+        }),
+      ]);
+    } else {
+      await prisma.tariffCode.update({ where: { id: tariff.id }, data: { effectiveTo: now } });
+    }
+
+    log.audit('Tariff deleted', { tariffId: tariff.id, hsCode: tariff.hsCode });
+
+    res.json({ success: true });
+  } catch (error) {
+    log.error('Delete tariff error', error);
+    res.status(500).json({ success: false, message: 'Erreur de suppression' });
+  }
+});
+
+export default router;
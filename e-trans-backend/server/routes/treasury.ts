@@ -0,0 +1,398 @@
+// server/routes/treasury.ts
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../config/prisma.js';
+import { log } from '../config/logger.js';
+import { auth, requireAccountant, requireDirector } from '../middleware/auth.js';
+import {
+  TreasuryError,
+  ensureDefaultAccounts,
+  postMovement,
+  transferFunds,
+} from '../services/treasury.service.js';
+
+const router = Router();
+router.use(auth);
+router.use(requireAccountant);
+
+// Validation schemas
+const createAccountSchema = z.object({
+  name: z.string().min(1),
+  type: z.enum(['CASH', 'BANK', 'MOBILE_MONEY']),
+  bankName: z.string().optional(),
+  accountNumber: z.string().optional(),
+  openingBalance: z.number().default(0),
+  openingDate: z.string().transform(s => new Date(s)).optional(),
+});
+
+const updateAccountSchema = z.object({
+  name: z.string().min(1).optional(),
+  bankName: z.string().nullable().optional(),
+  accountNumber: z.string().nullable().optional(),
+  openingBalance: z.number().optional(),
+  openingDate: z.string().transform(s => new Date(s)).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const transferSchema = z.object({
+  fromAccountId: z.string(),
+  toAccountId: z.string(),
+  amount: z.number().positive(),
+  date: z.string().transform(s => new Date(s)).optional(),
+  label: z.string().optional(),
+  reference: z.string().optional(),
+}).refine(t => t.fromAccountId !== t.toAccountId, {
+  message: 'Comptes source et destination identiques',
+  path: ['toAccountId'],
+});
+
+const cashCountSchema = z.object({
+  countedAmount: z.number().min(0).optional(),
+  // Banknotes and coins: { "20000": 12, "10000": 5 }
+  denominations: z.record(z.string().regex(/^\d+$/), z.number().int().min(0)).optional(),
+  notes: z.string().optional(),
+}).refine(c => c.countedAmount !== undefined || c.denominations, {
+  message: 'Montant compté ou billetage requis',
+  path: ['countedAmount'],
+});
+
+// ============================================
+// GET /api/treasury/accounts
+// ============================================
+
+router.get('/accounts', async (req: Request, res: Response) => {
+  try {
+    const companyId = req.user!.companyId;
+    await ensureDefaultAccounts(companyId);
+
+    const accounts = await prisma.treasuryAccount.findMany({
+      where: { companyId },
+      orderBy: [{ type: 'asc' }, { name: 'asc' }],
+    });
+
+    const active = accounts.filter(a => a.isActive);
+    const totals = {
+      cash: active.filter(a => a.type === 'CASH').reduce((sum, a) => sum + a.balance, 0),
+      bank: active.filter(a => a.type === 'BANK').reduce((sum, a) => sum + a.balance, 0),
+      mobileMoney: active.filter(a => a.type === 'MOBILE_MONEY').reduce((sum, a) => sum + a.balance, 0),
+      total: active.reduce((sum, a) => sum + a.balance, 0),
+    };
+
+    res.json({ success: true, data: { accounts, totals, asOf: new Date() } });
+  } catch (error) {
+    log.error('Get treasury accounts error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/treasury/accounts
+// ============================================
+
+router.post('/accounts', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const data = createAccountSchema.parse(req.body);
+    const companyId = req.user!.companyId;
+
+    const duplicate = await prisma.treasuryAccount.findFirst({
+      where: { companyId, name: data.name },
+    });
+
+    if (duplicate) {
+      return res.status(409).json({
+        success: false,
+        message: 'Un compte porte déjà ce nom',
+      });
+    }
+
+    const account = await prisma.treasuryAccount.create({
+      data: { ...data, balance: data.openingBalance, companyId },
+    });
+
+    log.audit('Treasury account created', { accountId: account.id, name: account.name });
+
+    res.status(201).json({ success: true, data: { account } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Create treasury account error', error);
+    res.status(500).json({ success: false, message: 'Erreur de création' });
+  }
+});
+
+// ============================================
+// PATCH /api/treasury/accounts/:id
+// ============================================
+
+router.patch('/accounts/:id', requireDirector, async (req: Request, res: Response) => {
+  try {
+    const data = updateAccountSchema.parse(req.body);
+
+    const account = await prisma.treasuryAccount.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+    });
+
+    if (!account) {
+      return res.status(404).json({
+        success: false,
+        message: 'Compte non trouvé',
+      });
+    }
+
+    // Once money has moved, balanceAfter chains from the opening balance:
+    // corrections go through an adjustment (cash count) instead
+    const openingChanged = data.openingBalance !== undefined && data.openingBalance !== account.openingBalance;
+
+    if (openingChanged && await prisma.treasuryMovement.count({ where: { accountId: account.id } }) > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Compte déjà mouvementé : corrigez le solde par un ajustement',
+        code: 'ACCOUNT_HAS_MOVEMENTS',
+      });
+    }
+
+    const updated = await prisma.treasuryAccount.update({
+      where: { id: account.id },
+      data: { ...data, ...(openingChanged && { balance: data.openingBalance }) },
+    });
+
+    log.audit('Treasury account updated', { accountId: account.id, changes: Object.keys(data) });
+
+    res.json({ success: true, data: { account: updated } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    log.error('Update treasury account error', error);
+    res.status(500).json({ success: false, message: 'Erreur de mise à jour' });
+  }
+});
+
+// ============================================
+// GET /api/treasury/accounts/:id/movements
+// ============================================
+
+router.get('/accounts/:id/movements', async (req: Request, res: Response) => {
+  try {
+    const { from, to, type, page = '1', limit = '50' } = req.query;
+    const pageNum = Math.max(1, parseInt(page as string));
+    const limitNum = Math.min(200, Math.max(1, parseInt(limit as string)));
+    const skip = (pageNum - 1) * limitNum;
+
+    const account = await prisma.treasuryAccount.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+    });
+
+    if (!account) {
+      return res.status(404).json({
+        success: false,
+        message: 'Compte non trouvé',
+      });
+    }
+
+    const where: any = { accountId: account.id };
+
+    if (type) where.type = type;
+    if (from || to) {
+      where.date = {};
+      if (from) where.date.gte = new Date(from as string);
+      if (to) where.date.lte = new Date(to as string);
+    }
+
+    const [movements, total] = await Promise.all([
+      prisma.treasuryMovement.findMany({
+        where,
+        include: {
+          expense: { select: { id: true, description: true, shipment: { select: { trackingNumber: true } } } },
+          payment: { select: { id: true, number: true, client: { select: { name: true } } } },
+        },
+        orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+        skip,
+        take: limitNum,
+      }),
+      prisma.treasuryMovement.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        account,
+        movements,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      },
+    });
+  } catch (error) {
+    log.error('Get treasury movements error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/treasury/transfers
+// ============================================
+
+router.post('/transfers', async (req: Request, res: Response) => {
+  try {
+    const data = transferSchema.parse(req.body);
+
+    const transfer = await prisma.$transaction(tx =>
+      transferFunds(tx, { ...data, companyId: req.user!.companyId, createdById: req.user!.id })
+    );
+
+    log.audit('Treasury transfer', {
+      transferId: transfer.transferId,
+      from: data.fromAccountId,
+      to: data.toAccountId,
+      amount: data.amount,
+    });
+
+    res.status(201).json({ success: true, data: transfer });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    if (error instanceof TreasuryError) {
+      return res.status(error.status).json({ success: false, message: error.message, code: error.code });
+    }
+    log.error('Treasury transfer error', error);
+    res.status(500).json({ success: false, message: 'Erreur de virement' });
+  }
+});
+
+// ============================================
+// GET /api/treasury/accounts/:id/cash-counts
+// ============================================
+
+router.get('/accounts/:id/cash-counts', async (req: Request, res: Response) => {
+  try {
+    const account = await prisma.treasuryAccount.findFirst({
+      where: { id: req.params.id, companyId: req.user!.companyId },
+    });
+
+    if (!account) {
+      return res.status(404).json({
+        success: false,
+        message: 'Compte non trouvé',
+      });
+    }
+
+    const cashCounts = await prisma.cashCount.findMany({
+      where: { accountId: account.id },
+      orderBy: { date: 'desc' },
+      take: 60,
+    });
+
+    res.json({ success: true, data: { account, cashCounts } });
+  } catch (error) {
+    log.error('Get cash counts error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+// ============================================
+// POST /api/treasury/accounts/:id/cash-counts
+// ============================================
+
+router.post('/accounts/:id/cash-counts', async (req: Request, res: Response) => {
+  try {
+    const data = cashCountSchema.parse(req.body);
+    const companyId = req.user!.companyId;
+
+    const account = await prisma.treasuryAccount.findFirst({
+      where: { id: req.params.id, companyId },
+    });
+
+    if (!account) {
+      return res.status(404).json({
+        success: false,
+        message: 'Compte non trouvé',
+      });
+    }
+
+    if (account.type !== 'CASH') {
+      return res.status(400).json({
+        success: false,
+        message: 'L\'arrêté de caisse ne concerne que les caisses',
+      });
+    }
+
+    const countedAmount = data.countedAmount ?? Object.entries(data.denominations!)
+      .reduce((sum, [value, quantity]) => sum + Number(value) * quantity, 0);
+
+    const cashCount = await prisma.$transaction(async (tx) => {
+      const { balance } = await tx.treasuryAccount.findUniqueOrThrow({
+        where: { id: account.id },
+        select: { balance: true },
+      });
+      const difference = countedAmount - balance;
+
+      // The count is authoritative: any gap is booked as an adjustment
+      if (difference !== 0) {
+        await postMovement(tx, {
+          accountId: account.id,
+          companyId,
+          type: 'ADJUSTMENT',
+          amount: difference,
+          label: difference > 0 ? 'Excédent de caisse' : 'Manquant de caisse',
+          createdById: req.user!.id,
+        });
+      }
+
+      return tx.cashCount.create({
+        data: {
+          accountId: account.id,
+          expectedBalance: balance,
+          countedAmount,
+          difference,
+          denominations: data.denominations,
+          notes: data.notes,
+          countedById: req.user!.id,
+          countedByName: req.user!.name,
+        },
+      });
+    });
+
+    log.audit('Cash count', {
+      accountId: account.id,
+      expected: cashCount.expectedBalance,
+      counted: cashCount.countedAmount,
+      difference: cashCount.difference,
+    });
+
+    res.status(201).json({ success: true, data: { cashCount } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        errors: error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+      });
+    }
+    if (error instanceof TreasuryError) {
+      return res.status(error.status).json({ success: false, message: error.message, code: error.code });
+    }
+    log.error('Cash count error', error);
+    res.status(500).json({ success: false, message: 'Erreur serveur' });
+  }
+});
+
+export default router;
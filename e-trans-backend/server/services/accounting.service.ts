@@ -0,0 +1,266 @@
+// server/services/accounting.service.ts
+
+import type { ExpenseCategory, ExpenseType, TreasuryAccount } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../config/prisma.js';
+
+/**
+ * SYSCOHADA accounts and journal codes, by key. Expense categories fall back
+ * to their type (`CATEGORY:DD` -> `TYPE:DISBURSEMENT`), invoice fee lines to
+ * their category (`FEE:COMMISSION` -> `CATEGORY:COMMISSION`), treasury
+ * accounts to their kind (`TREASURY:<id>` -> `TREASURY:BANK`). Companies
+ * override any key.
+ */
+export const DEFAULT_ACCOUNTING_MAPPING: Record<string, { account: string; label: string }> = {
+  CLIENT: { account: '411100', label: 'Clients' },
+  VAT_COLLECTED: { account: '443100', label: 'TVA facturée sur prestations' },
+  'TYPE:DISBURSEMENT': { account: '467100', label: 'Débours pour compte de clients' },
+  'TYPE:PROVISION': { account: '411100', label: 'Provisions reçues des clients' },
+  'CATEGORY:HONORAIRES': { account: '706100', label: 'Honoraires de transit' },
+  'CATEGORY:COMMISSION': { account: '706200', label: 'Commissions' },
+  'FEE:TRANSPORT': { account: '706300', label: 'Marge sur transport' },
+  'TREASURY:CASH': { account: '571100', label: 'Caisse' },
+  'TREASURY:BANK': { account: '521100', label: 'Banques' },
+  'TREASURY:MOBILE_MONEY': { account: '551100', label: 'Monnaie électronique' },
+  TRANSFER: { account: '585000', label: 'Virements de fonds' },
+  'ADJUSTMENT:GAIN': { account: '758000', label: 'Produits divers (excédents de caisse)' },
+  'ADJUSTMENT:LOSS': { account: '658000', label: 'Charges diverses (manquants de caisse)' },
+  'ADJUSTMENT:BANK': { account: '631000', label: 'Frais bancaires' },
+  'JOURNAL:SALES': { account: 'VT', label: 'Journal des ventes' },
+  'JOURNAL:CASH': { account: 'CA', label: 'Journal de caisse' },
+  'JOURNAL:BANK': { account: 'BQ', label: 'Journal de banque' },
+  'JOURNAL:MOBILE_MONEY': { account: 'MM', label: 'Journal mobile money' },
+};
+
+export type AccountingMap = Record<string, string>;
+
+export const loadAccountingMap = async (companyId: string): Promise<AccountingMap> => {
+  const overrides = await prisma.accountingMapping.findMany({ where: { companyId } });
+
+  return {
+    ...Object.fromEntries(Object.entries(DEFAULT_ACCOUNTING_MAPPING).map(([key, m]) => [key, m.account])),
+    ...Object.fromEntries(overrides.map(m => [m.key, m.account])),
+  };
+};
+
+const expenseAccount = (map: AccountingMap, category: ExpenseCategory | null, type: ExpenseType) =>
+  (category && map[`CATEGORY:${category}`]) || map[`TYPE:${type}`];
+
+const treasuryAccount = (map: AccountingMap, account: Pick<TreasuryAccount, 'id' | 'type'>) =>
+  map[`TREASURY:${account.id}`] || map[`TREASURY:${account.type}`];
+
+const treasuryJournal = (map: AccountingMap, account: Pick<TreasuryAccount, 'id' | 'type'>) =>
+  map[`JOURNAL:${account.id}`] || map[`JOURNAL:${account.type}`];
+
+// ============================================
+// Journal
+// ============================================
+
+// Also the shape of the lines stored on an export
+export const journalLineSchema = z.object({
+  journal: z.string(),
+  date: z.string(), // YYYY-MM-DD
+  piece: z.string(),
+  account: z.string(),
+  thirdParty: z.string().nullable(),
+  label: z.string(),
+  debit: z.number(),
+  credit: z.number(),
+});
+
+export type JournalLine = z.infer<typeof journalLineSchema>;
+
+export class JournalExportError extends Error {
+  constructor(public code: string, message: string, public status = 409) {
+    super(message);
+    this.name = 'JournalExportError';
+  }
+}
+
+const day = (date: Date) => date.toISOString().slice(0, 10);
+
+// GNF has no minor unit; negative amounts go to the other side
+const line = (base: Omit<JournalLine, 'debit' | 'credit'>, amount: number): JournalLine => {
+  const value = Math.round(amount);
+  return { ...base, debit: Math.max(0, value), credit: Math.max(0, -value) };
+};
+
+const invoiceInclude = {
+  lines: { orderBy: { position: 'asc' } },
+  client: { select: { nif: true } },
+} as const;
+
+const movementInclude = {
+  account: true,
+  payment: { select: { number: true, client: { select: { name: true, nif: true } } } },
+  expense: { select: { type: true, category: true, description: true, shipment: { select: { trackingNumber: true } } } },
+} as const;
+
+/**
+ * Items of the period not yet exported: issued invoices and credit notes,
+ * and every treasury movement.
+ */
+export const findJournalSources = (companyId: string, from: Date, to: Date) =>
+  Promise.all([
+    prisma.invoice.findMany({
+      where: { companyId, number: { not: null }, journalExportId: null, issueDate: { gte: from, lte: to } },
+      include: invoiceInclude,
+      orderBy: { issueDate: 'asc' },
+    }),
+    prisma.treasuryMovement.findMany({
+      where: { account: { companyId }, journalExportId: null, date: { gte: from, lte: to } },
+      include: movementInclude,
+      orderBy: { date: 'asc' },
+    }),
+  ]);
+
+type Sources = Awaited<ReturnType<typeof findJournalSources>>;
+
+// Sales journal: client debited TTC, disbursement and fee accounts and VAT credited
+const invoiceLines = (map: AccountingMap, invoice: Sources[0][number]): JournalLine[] => {
+  const base = {
+    journal: map['JOURNAL:SALES'],
+    date: day(invoice.issueDate!),
+    piece: invoice.number!,
+    thirdParty: invoice.client?.nif || invoice.clientName,
+  };
+  const prefix = invoice.type === 'CREDIT_NOTE' ? 'Avoir' : 'Facture';
+
+  // Lines sharing an account are grouped, as accounting software expects
+  const credits = new Map<string, number>();
+  for (const l of invoice.lines) {
+    const account = l.kind === 'FEE'
+      ? map[`FEE:${l.category}`] || expenseAccount(map, l.category || 'HONORAIRES', 'DISBURSEMENT')
+      : expenseAccount(map, l.category, 'DISBURSEMENT');
+    credits.set(account, (credits.get(account) || 0) + l.amount);
+  }
+
+  return [
+    line({ ...base, account: map.CLIENT, label: `${prefix} ${invoice.number} ${invoice.clientName}` }, invoice.totalAmount),
+    ...[...credits].map(([account, amount]) =>
+      line({ ...base, account, thirdParty: null, label: `${prefix} ${invoice.number}` }, -amount)
+    ),
+    ...(invoice.vatAmount !== 0
+      ? [line({ ...base, account: map.VAT_COLLECTED, thirdParty: null, label: `TVA ${invoice.number}` }, -invoice.vatAmount)]
+      : []),
+  ];
+};
+
+// Counterpart of a movement; reversals use the counterpart of what they reverse
+const movementCounterpart = (map: AccountingMap, movement: Sources[1][number]) => {
+  if (movement.payment) {
+    return { account: map.CLIENT, thirdParty: movement.payment.client.nif || movement.payment.client.name };
+  }
+  if (movement.expense) {
+    return { account: expenseAccount(map, movement.expense.category, movement.expense.type), thirdParty: null };
+  }
+  if (movement.type === 'TRANSFER') {
+    return { account: map.TRANSFER, thirdParty: null };
+  }
+  if (movement.amount > 0) {
+    return { account: map['ADJUSTMENT:GAIN'], thirdParty: null };
+  }
+  return {
+    account: movement.account.type === 'CASH' ? map['ADJUSTMENT:LOSS'] : map['ADJUSTMENT:BANK'],
+    thirdParty: null,
+  };
+};
+
+const movementLines = (map: AccountingMap, movement: Sources[1][number]): JournalLine[] => {
+  const base = {
+    journal: treasuryJournal(map, movement.account),
+    date: day(movement.date),
+    piece: movement.payment?.number || `MVT-${movement.id.slice(-8).toUpperCase()}`,
+    label: movement.label,
+  };
+  const counterpart = movementCounterpart(map, movement);
+
+  return [
+    line({ ...base, account: treasuryAccount(map, movement.account), thirdParty: null }, movement.amount),
+    line({ ...base, ...counterpart }, -movement.amount),
+  ];
+};
+
+export const buildJournal = (map: AccountingMap, [invoices, movements]: Sources) => {
+  const lines = [
+    ...invoices.flatMap(i => invoiceLines(map, i)),
+    ...movements.flatMap(m => movementLines(map, m)),
+  ]
+    .filter(l => l.debit !== 0 || l.credit !== 0)
+    .sort((a, b) => a.journal.localeCompare(b.journal) || a.date.localeCompare(b.date) || a.piece.localeCompare(b.piece));
+
+  // Every piece must balance on its own
+  const byPiece = new Map<string, number>();
+  for (const l of lines) {
+    const key = `${l.journal}|${l.piece}`;
+    byPiece.set(key, (byPiece.get(key) || 0) + l.debit - l.credit);
+  }
+  const unbalanced = [...byPiece].filter(([, diff]) => diff !== 0).map(([key]) => key.split('|')[1]);
+
+  const totalDebit = lines.reduce((sum, l) => sum + l.debit, 0);
+  const totalCredit = lines.reduce((sum, l) => sum + l.credit, 0);
+
+  return {
+    lines,
+    totalDebit,
+    totalCredit,
+    balanced: totalDebit === totalCredit && unbalanced.length === 0,
+    unbalanced,
+    invoiceIds: invoices.map(i => i.id),
+    movementIds: movements.map(m => m.id),
+  };
+};
+
+// ============================================
+// Formats
+// ============================================
+
+const csvField = (value: string) => (/[;"\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Semicolon-separated, as French-locale accounting software reads it
+export const formatJournalCsv = (lines: JournalLine[]) =>
+  [
+    'journal;date;piece;compte;tiers;libelle;debit;credit',
+    ...lines.map(l =>
+      [l.journal, l.date.split('-').reverse().join('/'), l.piece, l.account, l.thirdParty || '', l.label, String(l.debit), String(l.credit)]
+        .map(csvField)
+        .join(';')
+    ),
+  ].join('\r\n') + '\r\n';
+
+const pad = (value: string, width: number) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').slice(0, width).padEnd(width, ' ');
+
+/**
+ * Fixed-width import, one 109-character record per line:
+ * journal 3 | date JJMMAAAA 8 | pièce 15 | compte 13 | tiers 17 |
+ * libellé 37 | sens D/C 1 | montant 15 (entier, zéros à gauche).
+ * Accents are stripped: most import modules expect plain ASCII.
+ */
+export const formatJournalFixedWidth = (lines: JournalLine[]) =>
+  lines
+    .map(l => {
+      const [year, month, date] = l.date.split('-');
+      const debit = l.debit > 0;
+      return [
+        pad(l.journal, 3),
+        `${date}${month}${year}`,
+        pad(l.piece, 15),
+        pad(l.account, 13),
+        pad(l.thirdParty || '', 17),
+        pad(l.label, 37),
+        debit ? 'D' : 'C',
+        String(debit ? l.debit : l.credit).padStart(15, '0'),
+      ].join('');
+    })
+    .join('\r\n') + '\r\n';
+
+// ============================================
+// Locking
+// ============================================
+
+// A paid expense whose payment went to the accountants can no longer change
+export const isExpenseLocked = async (expenseId: string) =>
+  (await prisma.treasuryMovement.count({
+    where: { expenseId, journalExportId: { not: null } },
+  })) > 0;
@@ -0,0 +1,267 @@
+// server/services/bank-statement.service.ts
+
+import type { BankStatementLine, Prisma, StatementFormat } from '@prisma/client';
+import { parseCsv, parseCsvNumber, pickColumn } from '../utils/csv.js';
+import { xmlElement, xmlElements, xmlText } from '../utils/xml.js';
+
+export interface StatementRow {
+  date: Date;
+  valueDate?: Date;
+  amount: number;
+  label: string;
+  reference?: string;
+  counterparty?: string;
+}
+
+export interface ParsedStatement {
+  statementRef?: string;
+  fromDate: Date;
+  toDate: Date;
+  openingBalance?: number;
+  closingBalance?: number;
+  rows: StatementRow[];
+  errors: { line: number; message: string }[];
+}
+
+// A receipt is usually credited within a few days of being recorded
+export const DATE_WINDOW_DAYS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Below one franc, amounts are considered equal
+const EPSILON = 0.5;
+
+// ============================================
+// Parsing
+// ============================================
+
+// Bank exports use 31/01/2026, 31-01-2026 or 2026-01-31
+const parseStatementDate = (value: string | undefined): Date | undefined => {
+  if (!value) return undefined;
+  const french = value.match(/^(\d{2})[/.-](\d{2})[/.-](\d{4})/);
+  if (french) return new Date(Date.UTC(Number(french[3]), Number(french[2]) - 1, Number(french[1])));
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+  return undefined;
+};
+
+const bounds = (rows: StatementRow[]) => {
+  const times = rows.map(r => r.date.getTime());
+  return { fromDate: new Date(Math.min(...times)), toDate: new Date(Math.max(...times)) };
+};
+
+const parseCsvStatement = (content: string): ParsedStatement => {
+  const rows: StatementRow[] = [];
+  const errors: ParsedStatement['errors'] = [];
+
+  parseCsv(content).forEach((raw, index) => {
+    const line = index + 2; // header is line 1
+    const date = parseStatementDate(pickColumn(raw, 'date', 'date_operation', 'date opération', 'date operation'));
+    if (!date) return errors.push({ line, message: 'Date invalide' });
+
+    let amount = parseCsvNumber(pickColumn(raw, 'montant', 'amount'));
+    if (amount === undefined) {
+      const credit = parseCsvNumber(pickColumn(raw, 'credit', 'crédit'));
+      const debit = parseCsvNumber(pickColumn(raw, 'debit', 'débit'));
+      if (credit !== undefined || debit !== undefined) amount = (credit || 0) - Math.abs(debit || 0);
+    }
+    if (amount === undefined || amount === 0) return errors.push({ line, message: 'Montant invalide' });
+
+    rows.push({
+      date,
+      valueDate: parseStatementDate(pickColumn(raw, 'date_valeur', 'date valeur', 'valeur', 'value_date')),
+      amount,
+      label: pickColumn(raw, 'libelle', 'libellé', 'label', 'description') || '',
+      reference: pickColumn(raw, 'reference', 'référence', 'ref'),
+      counterparty: pickColumn(raw, 'tiers', 'contrepartie', 'counterparty'),
+    });
+  });
+
+  if (rows.length === 0) {
+    const today = new Date();
+    return { fromDate: today, toDate: today, rows, errors };
+  }
+
+  return { ...bounds(rows), rows, errors };
+};
+
+const camtAmount = (xml: string) => {
+  const value = Number(xmlText(xml, 'Amt'));
+  return xmlText(xml, 'CdtDbtInd') === 'DBIT' ? -value : value;
+};
+
+const camtDate = (xml: string | undefined) =>
+  xml ? parseStatementDate(xmlText(xml, 'Dt') || xmlText(xml, 'DtTm')) : undefined;
+
+const parseCamtStatement = (content: string): ParsedStatement => {
+  const statement = xmlElement(content, 'Stmt');
+  if (!statement) throw new SyntaxError('Élément Stmt introuvable : fichier CAMT.053 attendu');
+
+  const rows: StatementRow[] = [];
+  const errors: ParsedStatement['errors'] = [];
+
+  xmlElements(statement.inner, 'Ntry').forEach(({ inner }, index) => {
+    const date = camtDate(xmlElement(inner, 'BookgDt')?.inner) || camtDate(xmlElement(inner, 'ValDt')?.inner);
+    const amount = camtAmount(inner);
+    if (!date) return errors.push({ line: index + 1, message: 'Date de comptabilisation manquante' });
+    if (!amount) return errors.push({ line: index + 1, message: 'Montant invalide' });
+
+    const credit = amount > 0;
+    rows.push({
+      date,
+      valueDate: camtDate(xmlElement(inner, 'ValDt')?.inner),
+      amount,
+      label: xmlText(inner, 'Ustrd') || xmlText(inner, 'AddtlNtryInf') || xmlText(inner, 'AddtlTxInf') || '',
+      reference: xmlText(inner, 'EndToEndId') || xmlText(inner, 'AcctSvcrRef') || xmlText(inner, 'NtryRef'),
+      counterparty: xmlText(inner, credit ? 'Dbtr/Nm' : 'Cdtr/Nm') || xmlText(inner, credit ? 'Dbtr/Pty/Nm' : 'Cdtr/Pty/Nm'),
+    });
+  });
+
+  // OPBD / CLBD are the booked opening and closing balances
+  const balance = (code: string) => {
+    const found = xmlElements(statement.inner, 'Bal').find(b => xmlText(b.inner, 'Tp/CdOrPrtry/Cd') === code);
+    return found ? camtAmount(found.inner) : undefined;
+  };
+
+  const period = xmlElement(statement.inner, 'FrToDt')?.inner;
+  const fromDate = parseStatementDate(period && xmlText(period, 'FrDtTm'));
+  const toDate = parseStatementDate(period && xmlText(period, 'ToDtTm'));
+  const fallback = rows.length > 0 ? bounds(rows) : { fromDate: new Date(), toDate: new Date() };
+
+  return {
+    statementRef: xmlText(statement.inner, 'Id'),
+    fromDate: fromDate || fallback.fromDate,
+    toDate: toDate || fallback.toDate,
+    openingBalance: balance('OPBD'),
+    closingBalance: balance('CLBD'),
+    rows,
+    errors,
+  };
+};
+
+export const parseStatementFile = (format: StatementFormat, content: string): ParsedStatement =>
+  format === 'CSV' ? parseCsvStatement(content) : parseCamtStatement(content);
+
+// ============================================
+// Matching
+// ============================================
+
+const normalizeRef = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+type CandidateMovement = Prisma.TreasuryMovementGetPayload<{
+  include: {
+    payment: { select: { number: true; externalRef: true } };
+    expense: { select: { reference: true } };
+  };
+}>;
+
+// A reference of the movement (receipt number, cheque or transfer ref)
+// appears somewhere in the statement line
+export const referenceMatches = (
+  line: Pick<BankStatementLine, 'label' | 'reference' | 'counterparty'>,
+  movement: CandidateMovement
+) => {
+  const text = normalizeRef([line.label, line.reference, line.counterparty].filter(Boolean).join(' '));
+  return [movement.reference, movement.payment?.number, movement.payment?.externalRef, movement.expense?.reference]
+    .filter((ref): ref is string => !!ref)
+    .map(normalizeRef)
+    .some(ref => ref.length >= 4 && text.includes(ref));
+};
+
+// Movements of the account not yet matched, same amount, within the date window
+export const findCandidates = (
+  tx: Prisma.TransactionClient,
+  accountId: string,
+  line: Pick<BankStatementLine, 'date' | 'amount'>,
+  options: { anyAmount?: boolean } = {}
+) =>
+  tx.treasuryMovement.findMany({
+    where: {
+      accountId,
+      match: null,
+      ...(!options.anyAmount && { amount: { gte: line.amount - EPSILON, lte: line.amount + EPSILON } }),
+      date: {
+        gte: new Date(line.date.getTime() - DATE_WINDOW_DAYS * DAY_MS),
+        lte: new Date(line.date.getTime() + (DATE_WINDOW_DAYS + 1) * DAY_MS),
+      },
+    },
+    include: {
+      payment: { select: { number: true, externalRef: true } },
+      expense: { select: { reference: true } },
+    },
+    orderBy: { date: 'asc' },
+  });
+
+/**
+ * Matches new statement lines to movements. A single movement with the same
+ * amount whose reference shows up on the line is matched and confirmed; a
+ * single candidate without the reference is only suggested. Anything else
+ * stays unmatched for review.
+ */
+export const autoMatchLines = async (
+  tx: Prisma.TransactionClient,
+  accountId: string,
+  lines: BankStatementLine[]
+) => {
+  const result = { matched: 0, suggested: 0, unmatched: 0 };
+
+  for (const line of lines) {
+    const candidates = await findCandidates(tx, accountId, line);
+    const byReference = candidates.filter(m => referenceMatches(line, m));
+
+    if (byReference.length === 1 || candidates.length === 1) {
+      const confirmed = byReference.length === 1;
+      const movement = confirmed ? byReference[0] : candidates[0];
+
+      await tx.statementMatch.create({
+        data: {
+          lineId: line.id,
+          movementId: movement.id,
+          auto: true,
+          confirmed,
+          ...(confirmed && { confirmedAt: new Date() }),
+        },
+      });
+      await tx.bankStatementLine.update({
+        where: { id: line.id },
+        data: { status: confirmed ? 'MATCHED' : 'SUGGESTED' },
+      });
+
+      if (confirmed) result.matched++;
+      else result.suggested++;
+    } else {
+      result.unmatched++;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Stores how far the account is reconciled: up to the end of the last
+ * statement with no open line before it, and the bank's closing balance.
+ */
+export const refreshReconciliationStatus = async (tx: Prisma.TransactionClient, accountId: string) => {
+  const [firstOpen, statements] = await Promise.all([
+    tx.bankStatementLine.findFirst({
+      where: { accountId, status: { in: ['UNMATCHED', 'SUGGESTED'] } },
+      orderBy: { date: 'asc' },
+      select: { date: true },
+    }),
+    tx.bankStatement.findMany({
+      where: { accountId },
+      orderBy: { toDate: 'desc' },
+      select: { toDate: true, closingBalance: true },
+    }),
+  ]);
+
+  const reconciled = statements.find(s => !firstOpen || s.toDate < firstOpen.date);
+
+  return tx.treasuryAccount.update({
+    where: { id: accountId },
+    data: {
+      reconciledUntil: reconciled?.toDate ?? null,
+      statementBalance: statements.find(s => s.closingBalance !== null)?.closingBalance ?? null,
+    },
+  });
+};
@@ -0,0 +1,141 @@
+// server/services/checklist.service.ts
+
+import { ShipmentStatus } from '@prisma/client';
+import type { CustomsRegime, Document, DocumentType, RequirementLevel } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+
+export interface ChecklistRule {
+  regime: CustomsRegime | null;
+  status: ShipmentStatus;
+  documentType: DocumentType;
+  level: RequirementLevel;
+}
+
+export const DOCUMENT_LABELS: Record<DocumentType, string> = {
+  BL: 'Connaissement (BL)',
+  INVOICE: 'Facture commerciale',
+  PACKING_LIST: 'Liste de colisage',
+  DDI: 'DDI',
+  PHYTO_CERT: 'Certificat phytosanitaire',
+  ORIGIN_CERT: 'Certificat d\'origine',
+  EUR1: 'EUR.1',
+  TRANSIT_ORDER: 'Ordre de transit',
+  DECLARATION: 'Déclaration en douane',
+  LIQUIDATION: 'Bulletin de liquidation',
+  QUITTANCE: 'Quittance',
+  BAE: 'Bon à enlever (BAE)',
+  DO: 'Delivery order (DO)',
+  EXIT_NOTE: 'Bon de sortie',
+  EIR: 'EIR',
+  TERMINAL_INVOICE: 'Facture terminal',
+  TERMINAL_RECEIPT: 'Reçu terminal',
+  MSC_INVOICE: 'Facture compagnie',
+  DELIVERY_NOTE: 'Bon de livraison',
+  CUSTOMS_INVOICE: 'Facture douane',
+  DEBIT_NOTE: 'Note de débit',
+  RELEASE_REQUEST: 'Demande de mise à disposition',
+  OTHER: 'Autre',
+};
+
+const IMPORT_REGIMES: CustomsRegime[] = ['IM4', 'IM5', 'IM6', 'IM7'];
+
+// Used until a company saves its own checklist
+export const DEFAULT_CHECKLIST: ChecklistRule[] = [
+  { regime: null, status: 'ARRIVED', documentType: 'BL', level: 'BLOCK' },
+  { regime: null, status: 'DDI_OBTAINED', documentType: 'INVOICE', level: 'WARN' },
+  { regime: null, status: 'DDI_OBTAINED', documentType: 'PACKING_LIST', level: 'WARN' },
+  ...IMPORT_REGIMES.map(regime => ({
+    regime, status: 'DECLARATION_FILED' as const, documentType: 'DDI' as const, level: 'BLOCK' as const,
+  })),
+  { regime: 'TR', status: 'DECLARATION_FILED', documentType: 'TRANSIT_ORDER', level: 'BLOCK' },
+  { regime: null, status: 'LIQUIDATION_ISSUED', documentType: 'DECLARATION', level: 'WARN' },
+  { regime: null, status: 'CUSTOMS_PAID', documentType: 'LIQUIDATION', level: 'WARN' },
+  { regime: null, status: 'BAE_ISSUED', documentType: 'QUITTANCE', level: 'WARN' },
+  { regime: null, status: 'BAE_ISSUED', documentType: 'BAE', level: 'BLOCK' },
+  { regime: null, status: 'DO_RELEASED', documentType: 'TERMINAL_RECEIPT', level: 'WARN' },
+  { regime: null, status: 'DO_RELEASED', documentType: 'DO', level: 'BLOCK' },
+  { regime: null, status: 'IN_DELIVERY', documentType: 'EXIT_NOTE', level: 'WARN' },
+  { regime: null, status: 'DELIVERED', documentType: 'DELIVERY_NOTE', level: 'WARN' },
+];
+
+export const loadChecklist = async (companyId: string): Promise<ChecklistRule[]> => {
+  const rules = await prisma.documentRequirement.findMany({ where: { companyId } });
+  return rules.length > 0 ? rules : DEFAULT_CHECKLIST;
+};
+
+// The enum is declared in workflow order
+const STATUS_ORDER = Object.values(ShipmentStatus);
+
+const reached = (status: ShipmentStatus, step: ShipmentStatus) =>
+  STATUS_ORDER.indexOf(status) >= STATUS_ORDER.indexOf(step);
+
+/**
+ * Rules that apply to a regime, one per document type: the earliest step
+ * wins, and BLOCK wins over WARN at the same step.
+ */
+const rulesFor = (rules: ChecklistRule[], regime: CustomsRegime) => {
+  const byType = new Map<DocumentType, ChecklistRule>();
+
+  for (const rule of rules) {
+    if (rule.regime && rule.regime !== regime) continue;
+    const current = byType.get(rule.documentType);
+    const earlier = current && STATUS_ORDER.indexOf(rule.status) < STATUS_ORDER.indexOf(current.status);
+    const stricter = current && rule.status === current.status && rule.level === 'BLOCK';
+    if (!current || earlier || stricter) byType.set(rule.documentType, rule);
+  }
+
+  return [...byType.values()].sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+};
+
+type ShipmentForChecklist = {
+  customsRegime: CustomsRegime;
+  status: ShipmentStatus;
+  documents: Pick<Document, 'type'>[];
+};
+
+export const evaluateChecklist = (shipment: ShipmentForChecklist, rules: ChecklistRule[]) => {
+  const present = new Set(shipment.documents.map(d => d.type));
+
+  const items = rulesFor(rules, shipment.customsRegime).map(rule => ({
+    documentType: rule.documentType,
+    label: DOCUMENT_LABELS[rule.documentType],
+    requiredFrom: rule.status,
+    level: rule.level,
+    present: present.has(rule.documentType),
+    due: reached(shipment.status, rule.status),
+  }));
+
+  const missing = items.filter(i => i.due && !i.present);
+
+  return {
+    items,
+    present: items.filter(i => i.present).length,
+    missing: missing.length,
+    blocking: missing.filter(i => i.level === 'BLOCK').length,
+  };
+};
+
+export interface DocumentIssue {
+  code: 'DOCUMENT_REQUIRED';
+  message: string;
+  documentType: DocumentType;
+  level: RequirementLevel;
+}
+
+// Documents due by step `to` that the dossier does not have yet
+export const missingDocumentsFor = (
+  shipment: ShipmentForChecklist,
+  to: ShipmentStatus,
+  rules: ChecklistRule[]
+): DocumentIssue[] => {
+  const present = new Set(shipment.documents.map(d => d.type));
+
+  return rulesFor(rules, shipment.customsRegime)
+    .filter(rule => reached(to, rule.status) && !present.has(rule.documentType))
+    .map(rule => ({
+      code: 'DOCUMENT_REQUIRED',
+      message: `${DOCUMENT_LABELS[rule.documentType]} requis`,
+      documentType: rule.documentType,
+      level: rule.level,
+    }));
+};
@@ -0,0 +1,11 @@
+// server/services/client.service.ts
+
+import { prisma } from '../config/prisma.js';
+
+// NIFs are typed with spaces, dots or dashes; compare them without
+export const normalizeNif = (value: string) => value.toUpperCase().replace(/[\s.\-/]/g, '');
+
+export const findClientByNif = (companyId: string, nif: string) =>
+  prisma.client.findFirst({
+    where: { companyId, nif: normalizeNif(nif) },
+  });
@@ -0,0 +1,82 @@
+// server/services/container.service.ts
+
+import type { Container, ContainerEventType, ContainerStatus } from '@prisma/client';
+
+// ============================================
+// Lifecycle
+// ============================================
+
+// Each event moves the container to a status and stamps one date field.
+// Events must be recorded in this order.
+export const CONTAINER_EVENT_FLOW: Record<ContainerEventType, {
+  from: ContainerStatus;
+  to: ContainerStatus;
+  dateField: 'dischargedAt' | 'gateOutAt' | 'deliveredAt' | 'emptyReturnedAt';
+  label: string;
+}> = {
+  DISCHARGED: { from: 'ON_VESSEL', to: 'AT_PORT', dateField: 'dischargedAt', label: 'Déchargé' },
+  GATE_OUT: { from: 'AT_PORT', to: 'IN_TRANSIT', dateField: 'gateOutAt', label: 'Sorti du terminal' },
+  DELIVERED: { from: 'IN_TRANSIT', to: 'DELIVERED', dateField: 'deliveredAt', label: 'Livré au client' },
+  EMPTY_RETURNED: { from: 'DELIVERED', to: 'EMPTY_RETURNED', dateField: 'emptyReturnedAt', label: 'Vide restitué' },
+};
+
+const previousDate = (container: Container): Date | null =>
+  container.deliveredAt || container.gateOutAt || container.dischargedAt || null;
+
+export type ContainerEventCheck =
+  | { allowed: true }
+  | { allowed: false; code: 'INVALID_CONTAINER_EVENT' | 'EVENT_DATE_INVALID'; message: string };
+
+export const checkContainerEvent = (
+  container: Container,
+  type: ContainerEventType,
+  date: Date
+): ContainerEventCheck => {
+  const step = CONTAINER_EVENT_FLOW[type];
+
+  if (container.status !== step.from) {
+    return {
+      allowed: false,
+      code: 'INVALID_CONTAINER_EVENT',
+      message: `Événement ${type} impossible: conteneur au statut ${container.status}`,
+    };
+  }
+
+  const last = previousDate(container);
+  if (last && date < last) {
+    return {
+      allowed: false,
+      code: 'EVENT_DATE_INVALID',
+      message: 'La date doit être postérieure à l\'événement précédent',
+    };
+  }
+
+  return { allowed: true };
+};
+
+// ============================================
+// Stats
+// ============================================
+
+export const summarizeContainerStatuses = (groups: { status: ContainerStatus; _count: { _all: number } }[]) => {
+  const counts: Record<ContainerStatus, number> = {
+    ON_VESSEL: 0,
+    AT_PORT: 0,
+    IN_TRANSIT: 0,
+    DELIVERED: 0,
+    EMPTY_RETURNED: 0,
+  };
+
+  for (const g of groups) {
+    counts[g.status] = g._count._all;
+  }
+
+  return {
+    total: Object.values(counts).reduce((sum, n) => sum + n, 0),
+    onVessel: counts.ON_VESSEL,
+    atPort: counts.AT_PORT,
+    inTransit: counts.IN_TRANSIT,
+    delivered: counts.DELIVERED,
+    emptyReturned: counts.EMPTY_RETURNED,
+  };
+};
@@ -0,0 +1,234 @@
+// server/services/customs.service.ts
+
+import type { CustomsRegime, ExpenseCategory, TariffCode } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../config/prisma.js';
+
+// ============================================
+// Rates
+// ============================================
+
+// ECOWAS Common External Tariff: category → DD rate
+export const CET_CATEGORY_RATES = [0, 0.05, 0.10, 0.20, 0.35];
+
+export const VAT_RATE = 0.18;
+
+// Levies applied to the CIF value unless the tariff line overrides them
+export const STANDARD_LEVIES = {
+  RTL: 0.02,    // Redevance de traitement de la liquidation
+  PC: 0.005,    // Prélèvement communautaire CEDEAO
+  CA: 0.0025,   // Contribution africaine
+  BFU: 0.0025,  // Bordereau de frais unique
+};
+
+export type LevyCode = keyof typeof STANDARD_LEVIES;
+
+export const leviesSchema = z.object({
+  RTL: z.number().min(0).max(1),
+  PC: z.number().min(0).max(1),
+  CA: z.number().min(0).max(1),
+  BFU: z.number().min(0).max(1),
+}).partial();
+
+// ============================================
+// Lookup
+// ============================================
+
+export const normalizeHsCode = (value: string) => value.replace(/[\s.]/g, '');
+
+// Tariff versions in force on a given date
+export const effectiveOn = (date: Date) => ({
+  effectiveFrom: { lte: date },
+  OR: [{ effectiveTo: null }, { effectiveTo: { gt: date } }],
+});
+
+/**
+ * Finds the tariff line for an HS code as of `date`, falling back to shorter
+ * prefixes (10 → 8 → 6 → 4 digits) so a heading-level line covers its
+ * subheadings.
+ */
+export const findTariff = async (
+  companyId: string,
+  hsCode: string,
+  date: Date = new Date()
+): Promise<TariffCode | null> => {
+  const code = normalizeHsCode(hsCode);
+  const prefixes = [10, 8, 6, 4].filter(n => n <= code.length).map(n => code.slice(0, n));
+
+  const candidates = await prisma.tariffCode.findMany({
+    where: { companyId, hsCode: { in: prefixes }, ...effectiveOn(date) },
+  });
+
+  return candidates.sort((a, b) => b.hsCode.length - a.hsCode.length)[0] || null;
+};
+
+// ============================================
+// Regimes
+// ============================================
+
+export type DutyKey = 'dd' | 'rtl' | 'pc' | 'ca' | 'excise' | 'tva' | 'bfu' | 'exportDuty';
+export type DutyTreatment = 'PAYABLE' | 'SUSPENDED' | 'EXEMPT';
+
+const IMPORT_TAXES: DutyKey[] = ['dd', 'pc', 'ca', 'excise', 'tva'];
+
+interface RegimePolicy {
+  label: string;
+  suspended: DutyKey[];
+  exempt: DutyKey[];
+  // Share of suspended duties to cover with a guarantee (caution)
+  guaranteeRate: number;
+}
+
+// Lines not listed as suspended or exempt are payable
+export const REGIME_POLICIES: Record<CustomsRegime, RegimePolicy> = {
+  IM4: { label: 'Mise à la consommation', suspended: [], exempt: ['exportDuty'], guaranteeRate: 0 },
+  IM5: { label: 'Admission temporaire', suspended: IMPORT_TAXES, exempt: ['exportDuty'], guaranteeRate: 1 },
+  IM6: { label: 'Réimportation en suite d\'exportation temporaire', suspended: [], exempt: [...IMPORT_TAXES, 'exportDuty'], guaranteeRate: 0 },
+  IM7: { label: 'Mise en entrepôt', suspended: [...IMPORT_TAXES, 'rtl'], exempt: ['exportDuty'], guaranteeRate: 1 },
+  EX1: { label: 'Exportation définitive', suspended: [], exempt: [...IMPORT_TAXES, 'rtl'], guaranteeRate: 0 },
+  EX2: { label: 'Exportation temporaire', suspended: ['exportDuty'], exempt: [...IMPORT_TAXES, 'rtl'], guaranteeRate: 0 },
+  TR: { label: 'Transit', suspended: [...IMPORT_TAXES, 'rtl'], exempt: ['exportDuty'], guaranteeRate: 1 },
+};
+
+// ============================================
+// Calculation
+// ============================================
+
+export interface DutyLine {
+  rate: number;
+  base: number;
+  amount: number;
+  treatment: DutyTreatment;
+}
+
+export interface DutyBreakdown {
+  regime: { code: CustomsRegime; label: string };
+  dd: DutyLine;
+  rtl: DutyLine;
+  pc: DutyLine;
+  ca: DutyLine;
+  excise: DutyLine;
+  tva: DutyLine;
+  bfu: DutyLine;
+  exportDuty: DutyLine;
+  // Payable now
+  totalDuties: number;
+  suspendedDuties: number;
+  guarantee: number;
+  // Owed if the goods are not re-exported (or re-imported for EX2)
+  amountDueIfNotDischarged: number;
+  rules: string[];
+}
+
+export const DUTY_KEYS: DutyKey[] = ['dd', 'rtl', 'pc', 'ca', 'excise', 'tva', 'bfu', 'exportDuty'];
+
+// Rates are stored as fractions; shown as percentages to two decimals
+const percent = (rate: number) => Math.round(rate * 10000) / 100;
+
+const line = (rate: number, base: number): Omit<DutyLine, 'treatment'> => ({
+  rate: percent(rate),
+  base,
+  amount: Math.round(base * rate),
+});
+
+/**
+ * Computes duties on a value in GNF for a tariff line under a customs regime.
+ * Every line is computed in full, then marked payable, suspended or exempt
+ * by the regime. `rules` lists, in plain French, which rate was applied and why.
+ */
+export const calculateDuties = (
+  valueGnf: number,
+  tariff: TariffCode,
+  regime: CustomsRegime = 'IM4'
+): DutyBreakdown => {
+  const rules: string[] = [];
+  const policy = REGIME_POLICIES[regime];
+  const overrides = leviesSchema.parse(tariff.levies ?? {});
+  const levyRate = (code: LevyCode) => overrides[code] ?? STANDARD_LEVIES[code];
+
+  const ddRate = CET_CATEGORY_RATES[tariff.cetCategory] ?? CET_CATEGORY_RATES[4];
+  rules.push(`DD ${percent(ddRate)}% — catégorie TEC ${tariff.cetCategory} (ligne ${tariff.hsCode})`);
+
+  for (const code of Object.keys(STANDARD_LEVIES) as LevyCode[]) {
+    if (overrides[code] !== undefined) {
+      rules.push(`${code} ${percent(overrides[code]!)}% — taux spécifique à la ligne ${tariff.hsCode}`);
+    }
+  }
+
+  const dd = line(ddRate, valueGnf);
+  const rtl = line(levyRate('RTL'), valueGnf);
+  const pc = line(levyRate('PC'), valueGnf);
+  const ca = line(levyRate('CA'), valueGnf);
+  const bfu = line(levyRate('BFU'), valueGnf);
+  const exportDuty = line(tariff.exportRate, valueGnf);
+
+  const excise = line(tariff.exciseRate, valueGnf + dd.amount);
+  if (tariff.exciseRate > 0) {
+    rules.push(`Droit d'accise ${percent(tariff.exciseRate)}% sur CAF + DD`);
+  }
+
+  // TVA base: CIF + DD + RTL + excise
+  const tvaBase = valueGnf + dd.amount + rtl.amount + excise.amount;
+  const tva = line(tariff.vatExempt ? 0 : VAT_RATE, tvaBase);
+  rules.push(tariff.vatExempt
+    ? `TVA exonérée (ligne ${tariff.hsCode})`
+    : `TVA ${percent(VAT_RATE)}% sur CAF + DD + RTL${tariff.exciseRate > 0 ? ' + accise' : ''}`);
+
+  if (tariff.exportRate > 0 && !policy.exempt.includes('exportDuty')) {
+    rules.push(`Droit de sortie ${percent(tariff.exportRate)}% (ligne ${tariff.hsCode})`);
+  }
+
+  const computed = { dd, rtl, pc, ca, excise, tva, bfu, exportDuty };
+  const lines = {} as Record<DutyKey, DutyLine>;
+  let totalDuties = 0;
+  let suspendedDuties = 0;
+
+  for (const key of DUTY_KEYS) {
+    const treatment: DutyTreatment = policy.exempt.includes(key)
+      ? 'EXEMPT'
+      : policy.suspended.includes(key) ? 'SUSPENDED' : 'PAYABLE';
+    lines[key] = { ...computed[key], treatment };
+    if (treatment === 'PAYABLE') totalDuties += computed[key].amount;
+    if (treatment === 'SUSPENDED') suspendedDuties += computed[key].amount;
+  }
+
+  const guarantee = Math.round(suspendedDuties * policy.guaranteeRate);
+
+  rules.push(`Régime ${regime} — ${policy.label}`);
+  if (suspendedDuties > 0) {
+    rules.push(`Droits suspendus: ${suspendedDuties.toLocaleString('fr-FR')} GNF, exigibles si le régime n'est pas apuré`);
+  }
+  if (guarantee > 0) {
+    rules.push(`Caution requise: ${percent(policy.guaranteeRate)}% des droits suspendus`);
+  }
+
+  return {
+    regime: { code: regime, label: policy.label },
+    ...lines,
+    totalDuties,
+    suspendedDuties,
+    guarantee,
+    amountDueIfNotDischarged: suspendedDuties,
+    rules,
+  };
+};
+
+// Expense category and label for each duty line
+const DUTY_EXPENSES: [DutyKey, ExpenseCategory, string][] = [
+  ['dd', 'DD', 'Droit de Douane'],
+  ['rtl', 'RTL', 'Redevance de traitement de la liquidation'],
+  ['pc', 'PC', 'Prélèvement communautaire'],
+  ['ca', 'CA', 'Contribution africaine'],
+  ['excise', 'ACCISE', 'Droit d\'accise'],
+  ['tva', 'TVA', 'TVA'],
+  ['bfu', 'BFU', 'Bordereau de frais unique'],
+  ['exportDuty', 'DROIT_SORTIE', 'Droit de sortie'],
+];
+
+// Only payable lines become expenses; suspended duties are covered by the guarantee
+export const dutyExpenseLines = (breakdown: DutyBreakdown) =>
+  DUTY_EXPENSES.map(([key, category, description]) => ({
+    category,
+    description,
+    amount: breakdown[key].treatment === 'PAYABLE' ? breakdown[key].amount : 0,
+  }));
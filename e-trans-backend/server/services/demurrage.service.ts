@@ -0,0 +1,179 @@
+// server/services/demurrage.service.ts
+
+import type { Container, FreeTimeKind, FreeTimeRule, Shipment } from '@prisma/client';
+import { z } from 'zod';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const tierSchema = z.object({
+  fromDay: z.number().int().min(1),
+  toDay: z.number().int().min(1).nullable().optional(),
+  dailyRate: z.number().min(0),
+});
+
+// Tiers follow each other without gaps or overlaps; only the last one may
+// be open-ended
+export const tiersSchema = z.array(tierSchema).min(1).superRefine((tiers, ctx) => {
+  tiers.forEach((tier, i) => {
+    const last = i === tiers.length - 1;
+    if (tier.toDay == null && !last) {
+      ctx.addIssue({ code: 'custom', message: 'Seule la dernière tranche peut être sans fin', path: [i, 'toDay'] });
+    }
+    if (tier.toDay != null && tier.toDay < tier.fromDay) {
+      ctx.addIssue({ code: 'custom', message: 'Fin de tranche avant son début', path: [i, 'toDay'] });
+    }
+    const previous = tiers[i - 1];
+    if (previous?.toDay != null && tier.fromDay !== previous.toDay + 1) {
+      ctx.addIssue({ code: 'custom', message: `La tranche doit commencer au jour ${previous.toDay + 1}`, path: [i, 'fromDay'] });
+    }
+  });
+});
+
+export type Tier = z.infer<typeof tierSchema>;
+
+// Expense category each kind of charge is booked under
+export const KIND_CATEGORY: Record<FreeTimeKind, 'SURESTARIES' | 'MAGASINAGE'> = {
+  DEMURRAGE: 'SURESTARIES',
+  DETENTION: 'SURESTARIES',
+  STORAGE: 'MAGASINAGE',
+};
+
+// ============================================
+// Rule matching
+// ============================================
+
+/**
+ * Picks the most specific active rule for a kind: exact line and type first,
+ * then line only, then type only, then the company default.
+ */
+export const findRule = (
+  rules: FreeTimeRule[],
+  kind: FreeTimeKind,
+  shippingLine: string | null,
+  containerType: Container['type']
+): FreeTimeRule | null => {
+  const line = shippingLine?.trim().toUpperCase() || null;
+  const candidates = rules.filter(r =>
+    r.isActive &&
+    r.kind === kind &&
+    (!r.shippingLine || r.shippingLine.toUpperCase() === line) &&
+    (!r.containerType || r.containerType === containerType)
+  );
+
+  const score = (r: FreeTimeRule) => (r.shippingLine ? 2 : 0) + (r.containerType ? 1 : 0);
+  return candidates.sort((a, b) => score(b) - score(a))[0] || null;
+};
+
+// ============================================
+// Calculation
+// ============================================
+
+// Day of start counts as day 1
+export const countDays = (start: Date, end: Date) =>
+  Math.max(0, Math.floor((end.getTime() - start.getTime()) / DAY_MS) + 1);
+
+export const costForChargeableDays = (tiers: Tier[], chargeableDays: number) => {
+  let cost = 0;
+  for (const tier of tiers) {
+    const last = tier.toDay ?? Infinity;
+    const days = Math.max(0, Math.min(chargeableDays, last) - tier.fromDay + 1);
+    cost += days * tier.dailyRate;
+  }
+  return Math.round(cost);
+};
+
+export interface ChargeProjection {
+  kind: FreeTimeKind;
+  ruleId: string;
+  start: string;
+  end: string;
+  running: boolean;
+  freeDays: number;
+  freeTimeEndsAt: string;
+  daysUsed: number;
+  chargeableDays: number;
+  amount: number;
+}
+
+const projectCharge = (
+  rule: FreeTimeRule,
+  start: Date,
+  end: Date | null,
+  asOf: Date
+): ChargeProjection => {
+  const stop = end || asOf;
+  const daysUsed = countDays(start, stop);
+  const chargeableDays = Math.max(0, daysUsed - rule.freeDays);
+  const tiers = tiersSchema.parse(rule.tiers);
+
+  return {
+    kind: rule.kind,
+    ruleId: rule.id,
+    start: start.toISOString(),
+    end: stop.toISOString(),
+    running: !end,
+    freeDays: rule.freeDays,
+    freeTimeEndsAt: new Date(start.getTime() + rule.freeDays * DAY_MS).toISOString(),
+    daysUsed,
+    chargeableDays,
+    amount: costForChargeableDays(tiers, chargeableDays),
+  };
+};
+
+/**
+ * Projects port (demurrage, storage) and equipment (detention) charges for a
+ * container as of `asOf`. Running periods are costed up to `asOf`.
+ */
+export const projectContainer = (
+  container: Container,
+  shipment: Pick<Shipment, 'shippingLine' | 'ata'>,
+  rules: FreeTimeRule[],
+  asOf: Date
+) => {
+  const charges: ChargeProjection[] = [];
+  const portStart = container.dischargedAt || shipment.ata;
+
+  if (portStart) {
+    for (const kind of ['DEMURRAGE', 'STORAGE'] as const) {
+      const rule = findRule(rules, kind, shipment.shippingLine, container.type);
+      if (rule) charges.push(projectCharge(rule, portStart, container.gateOutAt, asOf));
+    }
+  }
+
+  if (container.gateOutAt) {
+    const rule = findRule(rules, 'DETENTION', shipment.shippingLine, container.type);
+    if (rule) charges.push(projectCharge(rule, container.gateOutAt, container.emptyReturnedAt, asOf));
+  }
+
+  return {
+    containerId: container.id,
+    number: container.number,
+    type: container.type,
+    status: container.status,
+    charges,
+    total: charges.reduce((sum, c) => sum + c.amount, 0),
+  };
+};
+
+export const projectShipment = (
+  shipment: Shipment & { containers: Container[] },
+  rules: FreeTimeRule[],
+  asOf: Date = new Date()
+) => {
+  const containers = shipment.containers.map(c => projectContainer(c, shipment, rules, asOf));
+
+  const byCategory: Record<string, number> = {};
+  for (const c of containers) {
+    for (const charge of c.charges) {
+      const category = KIND_CATEGORY[charge.kind];
+      byCategory[category] = (byCategory[category] || 0) + charge.amount;
+    }
+  }
+
+  return {
+    asOf: asOf.toISOString(),
+    containers,
+    byCategory,
+    total: containers.reduce((sum, c) => sum + c.total, 0),
+  };
+};
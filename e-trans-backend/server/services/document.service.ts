@@ -0,0 +1,64 @@
+// server/services/document.service.ts
+
+import type { Document, ShipmentStatus } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Versions
+// ============================================
+
+/**
+ * Orders the versions a document belongs to, oldest first, by following
+ * `supersedesId` links within the shipment's documents.
+ */
+export const versionChain = <T extends Pick<Document, 'id' | 'supersedesId'>>(documents: T[], id: string) => {
+  const byId = new Map(documents.map(d => [d.id, d]));
+  const bySupersedes = new Map(documents.filter(d => d.supersedesId).map(d => [d.supersedesId!, d]));
+
+  let first = byId.get(id);
+  if (!first) return [];
+  while (first.supersedesId && byId.has(first.supersedesId)) first = byId.get(first.supersedesId)!;
+
+  const chain: T[] = [];
+  for (let doc: T | undefined = first; doc; doc = bySupersedes.get(doc.id)) chain.push(doc);
+  return chain;
+};
+
+// ============================================
+// Expiry monitor
+// ============================================
+
+// Dossiers still being worked; expired papers no longer matter after delivery
+export const ACTIVE_STATUSES: ShipmentStatus[] = [
+  'DRAFT', 'PENDING', 'ARRIVED', 'DDI_OBTAINED', 'DECLARATION_FILED', 'LIQUIDATION_ISSUED',
+  'CUSTOMS_PAID', 'BAE_ISSUED', 'TERMINAL_PAID', 'DO_RELEASED', 'EXIT_NOTE_ISSUED', 'IN_DELIVERY',
+];
+
+export const findExpiringDocuments = async (companyId: string, days: number, now = new Date()) => {
+  const horizon = new Date(now.getTime() + days * DAY_MS);
+
+  const documents = await prisma.document.findMany({
+    where: {
+      isCurrent: true,
+      expiryDate: { not: null, lte: horizon },
+      shipment: { companyId, status: { in: ACTIVE_STATUSES } },
+    },
+    select: {
+      id: true,
+      type: true,
+      name: true,
+      reference: true,
+      expiryDate: true,
+      version: true,
+      shipment: { select: { id: true, trackingNumber: true, clientName: true, status: true } },
+    },
+    orderBy: { expiryDate: 'asc' },
+  });
+
+  return documents.map(doc => {
+    const daysLeft = Math.ceil((doc.expiryDate!.getTime() - now.getTime()) / DAY_MS);
+    return { ...doc, daysLeft, expired: daysLeft < 0 };
+  });
+};
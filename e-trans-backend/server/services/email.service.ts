@@ -1,5 +1,6 @@
 // server/services/email.service.ts
 
+import crypto from 'crypto';
 import { Resend } from 'resend';
 import { env } from '../config/env.js';
 import { log } from '../config/logger.js';
@@ -10,6 +11,16 @@ export const generateVerificationCode = (): string => {
   return Math.floor(100000 + Math.random() * 900000).toString();
 };
 
+// Invitations stay valid for days: a long random token rather than a code.
+// Only its hash is stored.
+export const generateInvitationToken = () => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  return { token, hash: hashInvitationToken(token) };
+};
+
+export const hashInvitationToken = (token: string) =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
 export const sendVerificationEmail = async (
   to: string,
   code: string,
@@ -135,3 +146,69 @@ export const sendWelcomeEmail = async (
     return false;
   }
 };
+
+export const sendInvitationEmail = async (
+  to: string,
+  token: string,
+  companyName: string,
+  clientName: string
+): Promise<boolean> => {
+  if (!resend) {
+    log.warn('Email skipped - RESEND_API_KEY not configured', { to });
+    return true;
+  }
+
+  const link = `${env.FRONTEND_URL}/invitation?email=${encodeURIComponent(to)}&token=${token}`;
+
+  try {
+    await resend.emails.send({
+      from: env.FROM_EMAIL,
+      to,
+      subject: `${companyName} vous invite à suivre vos dossiers sur E-Trans`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 480px; margin: 0 auto; padding: 40px 20px; }
+            .header { text-align: center; margin-bottom: 32px; }
+            .logo { width: 60px; height: 60px; background: linear-gradient(135deg, #3b82f6 0%, #1d4ed8 100%); border-radius: 12px; margin: 0 auto 16px; }
+            .button { display: inline-block; padding: 14px 28px; background: #1d4ed8; color: white !important; text-decoration: none; border-radius: 8px; font-weight: bold; }
+            .footer { text-align: center; color: #64748b; font-size: 14px; margin-top: 32px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <div class="logo"></div>
+              <h1 style="margin: 0; color: #0f172a;">E-Trans</h1>
+              <p style="color: #64748b; margin: 4px 0 0;">Transit & Dédouanement</p>
+            </div>
+            
+            <p><strong>${companyName}</strong> vous invite à suivre les dossiers de <strong>${clientName}</strong> en ligne : statut, conteneurs, documents et solde de provision.</p>
+            
+            <p style="text-align: center; margin: 32px 0;">
+              <a class="button" href="${link}">Activer mon accès</a>
+            </p>
+            
+            <p style="color: #64748b; font-size: 14px;">Cette invitation expire dans 7 jours.</p>
+            
+            <div class="footer">
+              <p>Si vous n'attendiez pas cette invitation, ignorez cet email.</p>
+              <p>© 2026 E-Trans - Tous droits réservés</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+    });
+
+    log.info('Invitation email sent', { to });
+    return true;
+  } catch (error) {
+    log.error('Failed to send invitation email', error);
+    return false;
+  }
+};
@@ -0,0 +1,66 @@
+// server/services/exchange-rate.service.ts
+
+import { prisma } from '../config/prisma.js';
+import { parseCsv, parseCsvNumber, pickColumn } from '../utils/csv.js';
+
+export const BASE_CURRENCY = 'GNF';
+
+/**
+ * Returns the GNF rate of `currency` in force on `date`: the most recent
+ * recorded rate on or before that date. Null when the company has no rate
+ * for this currency yet.
+ */
+export const findRate = async (
+  companyId: string,
+  currency: string,
+  date: Date = new Date()
+): Promise<{ rate: number; date: Date; source: string } | null> => {
+  const code = currency.toUpperCase();
+  if (code === BASE_CURRENCY) return { rate: 1, date, source: BASE_CURRENCY };
+
+  const entry = await prisma.exchangeRate.findFirst({
+    where: { companyId, currency: code, date: { lte: date } },
+    orderBy: { date: 'desc' },
+  });
+
+  return entry ? { rate: entry.rate, date: entry.date, source: entry.source } : null;
+};
+
+export interface RateRow {
+  currency: string;
+  date: Date;
+  rate: number;
+  source?: string;
+}
+
+// Accepts ISO dates (2026-01-31) and French dates (31/01/2026)
+const parseDate = (value: string | undefined): Date | null => {
+  if (!value) return null;
+  const fr = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const date = fr ? new Date(Date.UTC(+fr[3], +fr[2] - 1, +fr[1])) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const parseRateCsv = (content: string) => {
+  const rows: RateRow[] = [];
+  const errors: { line: number; message: string }[] = [];
+
+  parseCsv(content).forEach((raw, i) => {
+    const line = i + 2;
+    const currency = (pickColumn(raw, 'currency', 'devise') || '').toUpperCase();
+    const date = parseDate(pickColumn(raw, 'date', 'date_effet'));
+    const rate = parseCsvNumber(pickColumn(raw, 'rate', 'taux', 'cours'));
+
+    if (!/^[A-Z]{3}$/.test(currency) || currency === BASE_CURRENCY) {
+      errors.push({ line, message: `Devise invalide: "${currency}"` });
+    } else if (!date) {
+      errors.push({ line, message: 'Date invalide' });
+    } else if (!rate || rate <= 0) {
+      errors.push({ line, message: 'Taux invalide' });
+    } else {
+      rows.push({ currency, date, rate, source: pickColumn(raw, 'source')?.toUpperCase() });
+    }
+  });
+
+  return { rows, errors };
+};
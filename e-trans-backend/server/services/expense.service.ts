@@ -0,0 +1,81 @@
+// server/services/expense.service.ts
+
+import type { ExpenseCategory, Prisma } from '@prisma/client';
+
+export interface GeneratedLine {
+  category: ExpenseCategory;
+  description: string;
+  amount: number;
+}
+
+/**
+ * Expenses billed on an issued or paid invoice. Invoice lines only keep the
+ * expense id: changing or re-creating such an expense would go unbilled or
+ * be billed twice, so they stay as they are.
+ */
+export const invoicedExpenseIds = async (tx: Prisma.TransactionClient, expenseIds: string[]) => {
+  const lines = await tx.invoiceLine.findMany({
+    where: {
+      expenseId: { in: expenseIds },
+      invoice: { type: 'INVOICE', status: { in: ['ISSUED', 'PAID'] } },
+    },
+    select: { expenseId: true },
+  });
+  return new Set(lines.map(l => l.expenseId));
+};
+
+/**
+ * Brings the auto-generated disbursements of one `source` on a shipment in
+ * line with `lines`: one expense per category, updated in place on re-run.
+ * Paid lines and lines already on an issued invoice are never touched; a
+ * category whose frozen amount differs from the new one is reported in
+ * `skipped`.
+ */
+export const syncGeneratedExpenses = async (
+  tx: Prisma.TransactionClient,
+  shipmentId: string,
+  source: string,
+  lines: GeneratedLine[]
+) => {
+  const existing = await tx.expense.findMany({ where: { shipmentId, source } });
+
+  const frozen = await invoicedExpenseIds(tx, existing.map(e => e.id));
+  const result = { created: 0, updated: 0, removed: 0, skipped: [] as ExpenseCategory[] };
+
+  const categories = new Set([...lines.map(l => l.category), ...existing.map(e => e.category)]);
+
+  for (const category of categories) {
+    const line = lines.find(l => l.category === category);
+    const amount = line?.amount || 0;
+    const current = existing.find(e => e.category === category);
+
+    if (current && (current.paid || frozen.has(current.id))) {
+      if (current.amount !== amount) result.skipped.push(category);
+      continue;
+    }
+
+    if (current && amount === 0) {
+      await tx.expense.delete({ where: { id: current.id } });
+      result.removed++;
+    } else if (current) {
+      if (current.amount !== amount) {
+        await tx.expense.update({ where: { id: current.id }, data: { amount } });
+        result.updated++;
+      }
+    } else if (line && amount > 0) {
+      await tx.expense.create({
+        data: {
+          shipmentId,
+          type: 'DISBURSEMENT',
+          category,
+          description: line.description,
+          amount,
+          source,
+        },
+      });
+      result.created++;
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,169 @@
+// server/services/fee-schedule.service.ts
+
+import type { Container, ExpenseCategory, FeeSchedule, FeeScheduleItem, Shipment } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../config/prisma.js';
+import type { GeneratedLine } from './expense.service.js';
+
+// Expense `source` of the lines generated from a schedule
+export const FEE_SCHEDULE_SOURCE = 'FEE_SCHEDULE';
+
+export const containerRatesSchema = z.record(
+  z.enum([
+    'DRY_20', 'DRY_40', 'DRY_40HC', 'REEFER_20', 'REEFER_40', 'REEFER_40HR',
+    'OPEN_TOP_20', 'OPEN_TOP_40', 'FLAT_RACK_20', 'FLAT_RACK_40',
+  ]),
+  z.number().min(0)
+);
+
+export type ScheduleWithItems = FeeSchedule & { items: FeeScheduleItem[] };
+
+// ============================================
+// Schedule resolution
+// ============================================
+
+/**
+ * Schedules that apply to a shipment: the requested company schedule, or
+ * the default one, and the client's active rate cards.
+ */
+export const loadSchedules = async (companyId: string, clientId: string | null, scheduleId?: string) => {
+  const include = { items: { orderBy: { position: 'asc' } } } as const;
+
+  const [base, clientSchedules] = await Promise.all([
+    prisma.feeSchedule.findFirst({
+      where: scheduleId
+        ? { id: scheduleId, companyId, clientId: null }
+        : { companyId, clientId: null, isDefault: true, isActive: true },
+      include,
+    }),
+    clientId
+      ? prisma.feeSchedule.findMany({
+          where: { companyId, clientId, isActive: true },
+          include,
+          orderBy: { updatedAt: 'asc' },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  return { base, clientSchedules };
+};
+
+/**
+ * A category priced on a client's rate card replaces every line of that
+ * category in the company schedule; the latest rate card wins.
+ */
+export const resolveItems = (base: ScheduleWithItems | null, clientSchedules: ScheduleWithItems[]) => {
+  const byCategory = new Map<ExpenseCategory, { schedule: FeeSchedule; item: FeeScheduleItem }[]>();
+
+  for (const schedule of [...(base ? [base] : []), ...clientSchedules]) {
+    const own = new Map<ExpenseCategory, { schedule: FeeSchedule; item: FeeScheduleItem }[]>();
+    for (const item of schedule.items) {
+      own.set(item.category, [...(own.get(item.category) || []), { schedule, item }]);
+    }
+    for (const [category, items] of own) byCategory.set(category, items);
+  }
+
+  return [...byCategory.values()].flat();
+};
+
+// ============================================
+// Calculation
+// ============================================
+
+export interface FeeComputation {
+  itemId: string;
+  scheduleId: string;
+  scheduleName: string;
+  category: ExpenseCategory;
+  description: string;
+  basis: FeeScheduleItem['basis'];
+  quantity: number;
+  amount: number;
+  // Shipment data the line needs but does not have yet
+  missing: string | null;
+}
+
+type PricedShipment = Pick<Shipment, 'grossWeight' | 'cifValueGnf'> & {
+  containers: Pick<Container, 'type' | 'grossWeight'>[];
+};
+
+// Gross weight is in kg; the containers' weights stand in when the
+// dossier has none
+const tonnes = (shipment: PricedShipment) => {
+  const kg = shipment.grossWeight ??
+    (shipment.containers.some(c => c.grossWeight)
+      ? shipment.containers.reduce((sum, c) => sum + (c.grossWeight || 0), 0)
+      : null);
+  return kg === null ? null : kg / 1000;
+};
+
+const computeItem = (
+  item: FeeScheduleItem,
+  shipment: PricedShipment
+): { quantity: number; amount: number; missing: string | null } => {
+  switch (item.basis) {
+    case 'FLAT':
+      return { quantity: 1, amount: item.rate, missing: null };
+    case 'PER_CONTAINER': {
+      if (shipment.containers.length === 0) return { quantity: 0, amount: 0, missing: 'Conteneurs' };
+      // Types without their own rate use the item's rate
+      const rates = (item.containerRates || {}) as Record<string, number>;
+      return {
+        quantity: shipment.containers.length,
+        amount: shipment.containers.reduce((sum, c) => sum + (rates[c.type] ?? item.rate), 0),
+        missing: null,
+      };
+    }
+    case 'PER_TONNE': {
+      const weight = tonnes(shipment);
+      return weight === null
+        ? { quantity: 0, amount: 0, missing: 'Poids brut' }
+        : { quantity: weight, amount: weight * item.rate, missing: null };
+    }
+    case 'CIF_PERCENT':
+      return shipment.cifValueGnf === null
+        ? { quantity: 0, amount: 0, missing: 'Valeur CAF en GNF' }
+        : { quantity: shipment.cifValueGnf, amount: (shipment.cifValueGnf * item.rate) / 100, missing: null };
+  }
+};
+
+// Minimum and maximum only bound a charge that applies (amounts in GNF)
+const bound = (item: FeeScheduleItem, amount: number) => {
+  if (amount <= 0) return 0;
+  const floored = item.minAmount !== null ? Math.max(amount, item.minAmount) : amount;
+  return Math.round(item.maxAmount !== null ? Math.min(floored, item.maxAmount) : floored);
+};
+
+export const computeFees = (
+  items: ReturnType<typeof resolveItems>,
+  shipment: PricedShipment
+): FeeComputation[] =>
+  items.map(({ schedule, item }) => {
+    const { quantity, amount, missing } = computeItem(item, shipment);
+    return {
+      itemId: item.id,
+      scheduleId: schedule.id,
+      scheduleName: schedule.name,
+      category: item.category,
+      description: item.description,
+      basis: item.basis,
+      quantity,
+      amount: missing ? 0 : bound(item, amount),
+      missing,
+    };
+  });
+
+// One expense per category, as syncGeneratedExpenses expects
+export const feeExpenseLines = (fees: FeeComputation[]): GeneratedLine[] => {
+  const lines = new Map<ExpenseCategory, GeneratedLine>();
+  for (const fee of fees.filter(f => f.amount > 0)) {
+    const line = lines.get(fee.category);
+    if (line) {
+      line.amount += fee.amount;
+      line.description = `${line.description} + ${fee.description}`;
+    } else {
+      lines.set(fee.category, { category: fee.category, description: fee.description, amount: fee.amount });
+    }
+  }
+  return [...lines.values()];
+};
@@ -0,0 +1,209 @@
+// server/services/invoice.service.ts
+
+import type { ExpenseCategory, InvoiceLineKind, InvoiceStatus, InvoiceType, Prisma } from '@prisma/client';
+import { VAT_RATE } from './customs.service.js';
+import { nextSequenceValue, sequenceYear } from './numbering.service.js';
+
+// Our own remuneration: invoiced as fees and subject to VAT. Every other
+// disbursement is re-billed at cost, without VAT.
+export const FEE_CATEGORIES: ExpenseCategory[] = ['HONORAIRES', 'COMMISSION'];
+
+// Invoices that hold on to their expenses and deducted provisions
+export const ACTIVE_INVOICE_STATUSES: InvoiceStatus[] = ['DRAFT', 'ISSUED', 'PAID'];
+
+export const INVOICE_PREFIXES: Record<InvoiceType, string> = {
+  INVOICE: 'FA',
+  CREDIT_NOTE: 'AV',
+};
+
+const INVOICE_PADDING = 5;
+
+// Due date of an invoice issued without one
+export const PAYMENT_TERM_DAYS = 30;
+
+export interface ExtraFee {
+  description: string;
+  category?: ExpenseCategory;
+  quantity?: number;
+  unitPrice: number;
+}
+
+export interface DraftLine {
+  kind: InvoiceLineKind;
+  category: ExpenseCategory | null;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  taxable: boolean;
+  position: number;
+  expenseId: string | null;
+}
+
+// Amounts are in GNF, which has no minor unit
+const gnf = (amount: number) => Math.round(amount);
+
+const activeInvoiceWhere = (excludeInvoiceId?: string): Prisma.InvoiceWhereInput => ({
+  type: 'INVOICE',
+  status: { in: ACTIVE_INVOICE_STATUSES },
+  ...(excludeInvoiceId && { id: { not: excludeInvoiceId } }),
+});
+
+/**
+ * Lines for a shipment's invoice: every disbursement not already on another
+ * active invoice (fee categories become taxable fee lines), followed by the
+ * extra fees typed in by the accountant.
+ */
+export const buildInvoiceLines = async (
+  tx: Prisma.TransactionClient,
+  shipmentId: string,
+  fees: ExtraFee[] = [],
+  excludeInvoiceId?: string
+): Promise<DraftLine[]> => {
+  const expenses = await tx.expense.findMany({
+    where: {
+      shipmentId,
+      type: 'DISBURSEMENT',
+      amount: { gt: 0 },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const taken = await tx.invoiceLine.findMany({
+    where: {
+      expenseId: { in: expenses.map(e => e.id) },
+      invoice: activeInvoiceWhere(excludeInvoiceId),
+    },
+    select: { expenseId: true },
+  });
+  const invoiced = new Set(taken.map(l => l.expenseId));
+
+  const fromExpenses = expenses
+    .filter(e => !invoiced.has(e.id))
+    .map(e => {
+      const isFee = FEE_CATEGORIES.includes(e.category);
+      return {
+        kind: isFee ? 'FEE' as const : 'DISBURSEMENT' as const,
+        category: e.category,
+        description: e.description,
+        quantity: 1,
+        unitPrice: e.amount,
+        amount: gnf(e.amount),
+        taxable: isFee,
+        expenseId: e.id,
+      };
+    });
+
+  const extra = fees.map(fee => ({
+    kind: 'FEE' as const,
+    category: fee.category || 'HONORAIRES',
+    description: fee.description,
+    quantity: fee.quantity ?? 1,
+    unitPrice: fee.unitPrice,
+    amount: gnf((fee.quantity ?? 1) * fee.unitPrice),
+    taxable: true,
+    expenseId: null,
+  }));
+
+  // Disbursements first, then fees, as on the printed invoice
+  return [...fromExpenses, ...extra]
+    .sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'DISBURSEMENT' ? -1 : 1))
+    .map((line, position) => ({ ...line, position }));
+};
+
+// Provisions received on the shipment and not yet deducted on another invoice
+export const availableProvisions = async (
+  tx: Prisma.TransactionClient,
+  shipmentId: string,
+  excludeInvoiceId?: string
+) => {
+  const [provisions, deducted] = await Promise.all([
+    tx.expense.aggregate({
+      where: { shipmentId, type: 'PROVISION' },
+      _sum: { amount: true },
+    }),
+    tx.invoice.aggregate({
+      where: { shipmentId, ...activeInvoiceWhere(excludeInvoiceId) },
+      _sum: { provisionsDeducted: true },
+    }),
+  ]);
+
+  return Math.max(0, (provisions._sum.amount || 0) - (deducted._sum.provisionsDeducted || 0));
+};
+
+export const computeInvoiceTotals = (
+  lines: Pick<DraftLine, 'kind' | 'amount' | 'taxable'>[],
+  provisions: number,
+  vatRate = VAT_RATE
+) => {
+  let totalDisbursements = 0;
+  let totalFees = 0;
+  let taxableBase = 0;
+
+  for (const line of lines) {
+    if (line.kind === 'FEE') totalFees += line.amount;
+    else totalDisbursements += line.amount;
+    if (line.taxable) taxableBase += line.amount;
+  }
+
+  const vatAmount = gnf(taxableBase * vatRate);
+  const totalAmount = totalDisbursements + totalFees + vatAmount;
+  const provisionsDeducted = Math.min(provisions, Math.max(0, totalAmount));
+
+  return {
+    totalDisbursements,
+    totalFees,
+    vatRate,
+    vatAmount,
+    totalAmount,
+    provisionsDeducted,
+    amountDue: totalAmount - provisionsDeducted,
+  };
+};
+
+// Fee lines typed in on a draft, as opposed to those taken from expenses
+export const manualFees = (
+  lines: Pick<DraftLine, 'kind' | 'category' | 'description' | 'quantity' | 'unitPrice' | 'expenseId'>[]
+): ExtraFee[] =>
+  lines
+    .filter(l => l.kind === 'FEE' && !l.expenseId)
+    .map(l => ({
+      description: l.description,
+      category: l.category || undefined,
+      quantity: l.quantity,
+      unitPrice: l.unitPrice,
+    }));
+
+/**
+ * Lines and totals of a draft for `shipmentId`. Manual fee lines of an
+ * existing draft are passed back in `fees` so a refresh keeps them.
+ */
+export const buildInvoiceDraft = async (
+  tx: Prisma.TransactionClient,
+  shipmentId: string,
+  fees: ExtraFee[] = [],
+  excludeInvoiceId?: string
+) => {
+  const [lines, provisions] = await Promise.all([
+    buildInvoiceLines(tx, shipmentId, fees, excludeInvoiceId),
+    availableProvisions(tx, shipmentId, excludeInvoiceId),
+  ]);
+
+  return { lines, totals: computeInvoiceTotals(lines, provisions) };
+};
+
+export const formatInvoiceNumber = (type: InvoiceType, year: number, value: number) =>
+  `${INVOICE_PREFIXES[type]}-${year}-${String(value).padStart(INVOICE_PADDING, '0')}`;
+
+// Invoices and credit notes each have their own unbroken yearly sequence
+export const allocateInvoiceNumber = async (
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  type: InvoiceType,
+  date = new Date()
+) => {
+  const year = sequenceYear(date);
+  const value = await nextSequenceValue(tx, companyId, type, year);
+
+  return formatInvoiceNumber(type, year, value);
+};
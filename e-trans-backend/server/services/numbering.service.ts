@@ -0,0 +1,102 @@
+// server/services/numbering.service.ts
+
+import type { Company, CustomsRegime, Prisma } from '@prisma/client';
+
+export type NumberingSettings = Pick<Company, 'slug' | 'dossierPrefix' | 'dossierPadding' | 'dossierPerRegime'>;
+
+// Years follow Conakry time, which is UTC
+export const sequenceYear = (date = new Date()) => date.getUTCFullYear();
+
+/**
+ * Takes the next value of a yearly counter. The counter row is created on
+ * first use with ON CONFLICT DO NOTHING, then incremented in place: the row
+ * lock held until the surrounding transaction commits serializes concurrent
+ * callers, so no two of them get the same value. A new year starts a new
+ * row, hence a new sequence from 1.
+ */
+export const nextSequenceValue = async (
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  scope: string,
+  year: number
+) => {
+  await tx.numberSequence.createMany({
+    data: [{ companyId, scope, year, lastValue: 0 }],
+    skipDuplicates: true,
+  });
+
+  const sequence = await tx.numberSequence.update({
+    where: { companyId_scope_year: { companyId, scope, year } },
+    data: { lastValue: { increment: 1 } },
+  });
+
+  return sequence.lastValue;
+};
+
+export const dossierScope = (settings: NumberingSettings, regime: CustomsRegime) =>
+  settings.dossierPerRegime ? `DOSSIER:${regime}` : 'DOSSIER';
+
+// Companies that never chose a prefix fall back to their (unique) slug
+export const dossierPrefix = (settings: NumberingSettings) =>
+  settings.dossierPrefix || settings.slug.toUpperCase();
+
+/**
+ * Tracking numbers are unique across companies, so a prefix is free only if
+ * no other company uses it (as its prefix or its slug fallback) and no other
+ * company's dossiers were numbered with it, e.g. before a prefix change.
+ */
+export const isDossierPrefixTaken = async (
+  tx: Prisma.TransactionClient,
+  prefix: string,
+  companyId?: string
+) => {
+  const others = companyId ? { not: companyId } : undefined;
+
+  const [company, shipment] = await Promise.all([
+    tx.company.findFirst({
+      where: {
+        id: others,
+        OR: [
+          { dossierPrefix: prefix },
+          { dossierPrefix: null, slug: { equals: prefix, mode: 'insensitive' } },
+        ],
+      },
+      select: { id: true },
+    }),
+    tx.shipment.findFirst({
+      where: { companyId: others, trackingNumber: { startsWith: `${prefix}-` } },
+      select: { id: true },
+    }),
+  ]);
+
+  return !!company || !!shipment;
+};
+
+export const formatDossierNumber = (
+  settings: NumberingSettings,
+  regime: CustomsRegime,
+  year: number,
+  value: number
+) =>
+  [
+    dossierPrefix(settings),
+    ...(settings.dossierPerRegime ? [regime] : []),
+    year,
+    String(value).padStart(settings.dossierPadding, '0'),
+  ].join('-');
+
+export const allocateDossierNumber = async (
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  regime: CustomsRegime,
+  date = new Date()
+) => {
+  const settings = await tx.company.findUniqueOrThrow({
+    where: { id: companyId },
+    select: { slug: true, dossierPrefix: true, dossierPadding: true, dossierPerRegime: true },
+  });
+  const year = sequenceYear(date);
+  const value = await nextSequenceValue(tx, companyId, dossierScope(settings, regime), year);
+
+  return formatDossierNumber(settings, regime, year, value);
+};
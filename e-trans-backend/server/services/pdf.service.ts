@@ -0,0 +1,364 @@
+// server/services/pdf.service.ts
+
+import PDFDocument from 'pdfkit';
+import type { Company, Container, DocumentType, Expense, Shipment } from '@prisma/client';
+import { log } from '../config/logger.js';
+
+export type PdfShipment = Shipment & {
+  company: Company;
+  containers: Container[];
+  expenses: Expense[];
+};
+
+type Pdf = InstanceType<typeof PDFDocument>;
+
+export const PDF_KINDS = {
+  'delivery-note': { type: 'DELIVERY_NOTE', title: 'BON DE LIVRAISON', file: 'bon-de-livraison' },
+  'transit-order': { type: 'TRANSIT_ORDER', title: 'ORDRE DE TRANSIT', file: 'ordre-de-transit' },
+  'debit-note': { type: 'DEBIT_NOTE', title: 'NOTE DE DÉBIT', file: 'note-de-debit' },
+  'release-request': { type: 'RELEASE_REQUEST', title: 'DEMANDE DE MISE À DISPOSITION', file: 'demande-mise-a-disposition' },
+} as const satisfies Record<string, { type: DocumentType; title: string; file: string }>;
+
+export type PdfKind = keyof typeof PDF_KINDS;
+
+const MARGIN = 50;
+const PRIMARY = '#1d4ed8';
+const MUTED = '#64748b';
+
+// ============================================
+// Formatting
+// ============================================
+
+// Standard PDF fonts have no narrow no-break space, which fr-FR uses
+const formatNumber = (value: number) =>
+  Math.round(value).toLocaleString('fr-FR').replace(/[  ]/g, ' ');
+
+const formatGnf = (value: number) => `${formatNumber(value)} GNF`;
+
+const formatDate = (date: Date | null | undefined) =>
+  date ? date.toLocaleDateString('fr-FR', { timeZone: 'UTC' }) : '—';
+
+const orDash = (value: string | number | null | undefined) =>
+  value === null || value === undefined || value === '' ? '—' : String(value);
+
+// ============================================
+// Branding
+// ============================================
+
+// Only data URLs are embedded: the server never fetches a URL set by a
+// user. A logo that cannot be loaded is left out rather than failing the
+// document.
+const loadLogo = (logo: string | null): Buffer | null => {
+  const dataUrl = logo?.match(/^data:image\/(png|jpe?g);base64,(.+)$/);
+  if (dataUrl) return Buffer.from(dataUrl[2], 'base64');
+
+  if (logo) log.warn('Company logo not loaded', { logo: logo.slice(0, 80) });
+  return null;
+};
+
+const drawHeader = (doc: Pdf, company: Company, logo: Buffer | null, title: string, reference: string) => {
+  let textX = MARGIN;
+
+  if (logo) {
+    try {
+      doc.image(logo, MARGIN, MARGIN, { fit: [70, 70] });
+      textX = MARGIN + 85;
+    } catch {
+      // Unsupported image format
+    }
+  }
+
+  doc.fillColor(PRIMARY).font('Helvetica-Bold').fontSize(16).text(company.name, textX, MARGIN);
+  doc.fillColor(MUTED).font('Helvetica').fontSize(8);
+  const lines = [
+    company.address,
+    [company.phone, company.email].filter(Boolean).join(' - '),
+    [company.nif && `NIF: ${company.nif}`, company.rccm && `RCCM: ${company.rccm}`].filter(Boolean).join(' - '),
+    company.agrementNumber && `Agrément commissionnaire en douane n° ${company.agrementNumber}`,
+  ].filter(Boolean) as string[];
+  for (const line of lines) doc.text(line, textX);
+
+  doc.moveDown(2);
+  doc.x = MARGIN;
+  doc.fillColor('#0f172a').font('Helvetica-Bold').fontSize(14).text(title, { align: 'center' });
+  doc.font('Helvetica').fontSize(9).fillColor(MUTED)
+    .text(`Dossier ${reference} - Édité le ${formatDate(new Date())}`, { align: 'center' });
+  doc.moveDown(1.5);
+  doc.fillColor('#0f172a');
+};
+
+const drawFooter = (doc: Pdf, company: Company) => {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // Text below the bottom margin would otherwise open a new page
+    doc.page.margins.bottom = 0;
+    const y = doc.page.height - MARGIN + 10;
+    const bank = company.bankName || company.bankAccount
+      ? `${orDash(company.bankName)} - Compte ${orDash(company.bankAccount)}`
+      : '';
+    doc.font('Helvetica').fontSize(7).fillColor(MUTED)
+      .text(`${company.name}${bank ? ` - ${bank}` : ''}`, MARGIN, y, {
+        width: doc.page.width - 2 * MARGIN,
+        align: 'left',
+        lineBreak: false,
+      })
+      .text(`Page ${i - range.start + 1}/${range.count}`, MARGIN, y, {
+        width: doc.page.width - 2 * MARGIN,
+        align: 'right',
+        lineBreak: false,
+      });
+  }
+};
+
+// ============================================
+// Building blocks
+// ============================================
+
+const section = (doc: Pdf, title: string) => {
+  doc.moveDown(0.8);
+  doc.font('Helvetica-Bold').fontSize(10).fillColor(PRIMARY).text(title.toUpperCase(), MARGIN);
+  doc.moveTo(MARGIN, doc.y + 2).lineTo(doc.page.width - MARGIN, doc.y + 2).strokeColor(PRIMARY).lineWidth(0.5).stroke();
+  doc.moveDown(0.5);
+  doc.fillColor('#0f172a');
+};
+
+const fields = (doc: Pdf, rows: [string, string | number | null | undefined][]) => {
+  doc.fontSize(9);
+  for (const [label, value] of rows) {
+    const y = doc.y;
+    doc.font('Helvetica').fillColor(MUTED).text(label, MARGIN, y, { width: 160 });
+    doc.font('Helvetica-Bold').fillColor('#0f172a').text(orDash(value), MARGIN + 165, y, {
+      width: doc.page.width - 2 * MARGIN - 165,
+    });
+    doc.moveDown(0.2);
+  }
+};
+
+const table = (
+  doc: Pdf,
+  columns: { header: string; width: number; align?: 'left' | 'right' }[],
+  rows: string[][]
+) => {
+  const rowHeight = 16;
+  const drawRow = (cells: string[], bold: boolean) => {
+    if (doc.y + rowHeight > doc.page.height - MARGIN - 20) doc.addPage();
+    const y = doc.y;
+    let x = MARGIN;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8.5).fillColor('#0f172a');
+    cells.forEach((cell, i) => {
+      doc.text(cell, x + 3, y + 4, { width: columns[i].width - 6, align: columns[i].align || 'left', lineBreak: false });
+      x += columns[i].width;
+    });
+    doc.rect(MARGIN, y, x - MARGIN, rowHeight).strokeColor('#cbd5e1').lineWidth(0.5).stroke();
+    doc.x = MARGIN;
+    doc.y = y + rowHeight;
+  };
+
+  drawRow(columns.map(c => c.header), true);
+  for (const row of rows) drawRow(row, false);
+  doc.moveDown(0.5);
+};
+
+const signatures = (doc: Pdf, left: string, right: string) => {
+  doc.moveDown(2);
+  if (doc.y + 80 > doc.page.height - MARGIN - 20) doc.addPage();
+  const y = doc.y;
+  const width = (doc.page.width - 2 * MARGIN - 40) / 2;
+  doc.font('Helvetica-Bold').fontSize(9).fillColor('#0f172a')
+    .text(left, MARGIN, y, { width, align: 'center' })
+    .text(right, MARGIN + width + 40, y, { width, align: 'center' });
+  doc.rect(MARGIN, y + 15, width, 60).strokeColor('#cbd5e1').stroke();
+  doc.rect(MARGIN + width + 40, y + 15, width, 60).strokeColor('#cbd5e1').stroke();
+  doc.x = MARGIN;
+  doc.y = y + 85;
+};
+
+const containerRows = (containers: Container[]) =>
+  containers.map(c => [
+    c.number,
+    c.type.replace(/_/g, ' '),
+    orDash(c.sealNumber),
+    c.grossWeight ? `${formatNumber(c.grossWeight)} kg` : '—',
+  ]);
+
+const CONTAINER_COLUMNS = [
+  { header: 'Conteneur', width: 130 },
+  { header: 'Type', width: 130 },
+  { header: 'Plomb', width: 130 },
+  { header: 'Poids brut', width: 105, align: 'right' as const },
+];
+
+// ============================================
+// Templates
+// ============================================
+
+const TEMPLATES: Record<PdfKind, (doc: Pdf, s: PdfShipment) => void> = {
+  'delivery-note': (doc, s) => {
+    section(doc, 'Destinataire');
+    fields(doc, [
+      ['Client', s.clientName],
+      ['NIF', s.clientNif],
+      ['Adresse', s.clientAddress],
+      ['Téléphone', s.clientPhone],
+    ]);
+    section(doc, 'Marchandise');
+    fields(doc, [
+      ['Désignation', s.description],
+      ['Colis', s.packageCount && `${s.packageCount} ${s.packaging || ''}`.trim()],
+      ['Poids brut', s.grossWeight && `${formatNumber(s.grossWeight)} kg`],
+      ['Connaissement (BL)', s.blNumber],
+      ['Navire / Voyage', [s.vesselName, s.voyageNumber].filter(Boolean).join(' / ')],
+      ['Bon de sortie', s.bsNumber],
+    ]);
+    if (s.containers.length > 0) {
+      section(doc, 'Conteneurs');
+      table(doc, CONTAINER_COLUMNS, containerRows(s.containers));
+    }
+    section(doc, 'Livraison');
+    fields(doc, [
+      ['Lieu de livraison', s.deliveryPlace],
+      ['Date', formatDate(s.deliveryDate)],
+      ['Chauffeur', s.deliveryDriver],
+      ['Téléphone chauffeur', s.deliveryPhone],
+      ['Camion', s.deliveryTruck],
+    ]);
+    doc.moveDown(0.5);
+    doc.font('Helvetica').fontSize(8.5).fillColor(MUTED)
+      .text('Marchandise reçue en bon état apparent, sauf réserves mentionnées ci-dessous.', MARGIN);
+    signatures(doc, 'Le transitaire', 'Le destinataire (nom, date, cachet)');
+  },
+
+  'transit-order': (doc, s) => {
+    doc.font('Helvetica').fontSize(9.5).fillColor('#0f172a').text(
+      `Le soussigné donne ordre à ${s.company.name} d'accomplir pour son compte les formalités ` +
+      'de dédouanement et d\'enlèvement de la marchandise désignée ci-dessous, et de procéder aux ' +
+      'paiements afférents au moyen des provisions versées.',
+      MARGIN,
+      doc.y,
+      { align: 'justify' }
+    );
+    section(doc, 'Donneur d\'ordre');
+    fields(doc, [
+      ['Client', s.clientName],
+      ['NIF', s.clientNif],
+      ['Adresse', s.clientAddress],
+      ['Téléphone', s.clientPhone],
+    ]);
+    section(doc, 'Expédition');
+    fields(doc, [
+      ['Fournisseur', [s.supplierName, s.supplierCountry].filter(Boolean).join(' - ')],
+      ['Connaissement (BL)', s.blNumber],
+      ['Compagnie maritime', s.shippingLine],
+      ['Navire / Voyage', [s.vesselName, s.voyageNumber].filter(Boolean).join(' / ')],
+      ['Port de chargement', s.portOfLoading],
+      ['Arrivée prévue', formatDate(s.eta)],
+    ]);
+    section(doc, 'Marchandise et douane');
+    fields(doc, [
+      ['Désignation', s.description],
+      ['Code SH', s.hsCode],
+      ['Colis', s.packageCount && `${s.packageCount} ${s.packaging || ''}`.trim()],
+      ['Poids brut / net', [s.grossWeight, s.netWeight].map(w => (w ? `${formatNumber(w)} kg` : '—')).join(' / ')],
+      ['Valeur CAF', s.cifValue && `${formatNumber(s.cifValue)} ${s.cifCurrency || ''}`.trim()],
+      ['Régime douanier', s.customsRegime],
+      ['Bureau', [s.customsOffice, s.customsOfficeName].filter(Boolean).join(' - ')],
+    ]);
+    if (s.containers.length > 0) {
+      section(doc, 'Conteneurs');
+      table(doc, CONTAINER_COLUMNS, containerRows(s.containers));
+    }
+    signatures(doc, 'Le donneur d\'ordre', `Pour ${s.company.name}`);
+  },
+
+  'debit-note': (doc, s) => {
+    section(doc, 'Client');
+    fields(doc, [
+      ['Client', s.clientName],
+      ['NIF', s.clientNif],
+      ['Connaissement (BL)', s.blNumber],
+      ['Déclaration', s.declarationNumber],
+    ]);
+
+    const disbursements = s.expenses.filter(e => e.type === 'DISBURSEMENT');
+    const provisions = s.expenses.filter(e => e.type === 'PROVISION');
+    const totalDisbursements = disbursements.reduce((sum, e) => sum + e.amount, 0);
+    const totalProvisions = provisions.reduce((sum, e) => sum + e.amount, 0);
+
+    section(doc, 'Débours engagés pour votre compte');
+    table(
+      doc,
+      [
+        { header: 'Nature', width: 90 },
+        { header: 'Libellé', width: 215 },
+        { header: 'Réf.', width: 85 },
+        { header: 'Montant', width: 105, align: 'right' },
+      ],
+      [
+        ...disbursements.map(e => [e.category, e.description, orDash(e.reference), formatGnf(e.amount)]),
+        ['', 'Total débours', '', formatGnf(totalDisbursements)],
+        ['', 'Provisions reçues', '', formatGnf(-totalProvisions)],
+      ]
+    );
+
+    const due = totalDisbursements - totalProvisions;
+    doc.moveDown(0.5);
+    doc.font('Helvetica-Bold').fontSize(11).fillColor(due > 0 ? '#b91c1c' : '#15803d')
+      .text(due > 0 ? `Reste à payer : ${formatGnf(due)}` : `Solde en votre faveur : ${formatGnf(-due)}`, MARGIN, doc.y, {
+        align: 'right',
+      });
+    doc.moveDown(0.5);
+    doc.font('Helvetica').fontSize(8.5).fillColor(MUTED)
+      .text('Débours refacturés à l\'identique, hors taxes, sur justificatifs disponibles sur demande.', MARGIN);
+  },
+
+  'release-request': (doc, s) => {
+    doc.font('Helvetica').fontSize(9.5).fillColor('#0f172a')
+      .text(`À l'attention de : ${orDash(s.shippingLine)}`, MARGIN)
+      .moveDown(0.8)
+      .text(
+        `Nous vous prions de bien vouloir mettre à disposition de ${s.company.name}, agissant pour le compte de ` +
+        `${s.clientName}, les conteneurs ci-dessous, les formalités douanières étant accomplies.`,
+        { align: 'justify' }
+      );
+    section(doc, 'Références');
+    fields(doc, [
+      ['Connaissement (BL)', s.blNumber],
+      ['Navire / Voyage', [s.vesselName, s.voyageNumber].filter(Boolean).join(' / ')],
+      ['Manifeste', [s.manifestNumber, s.manifestYear].filter(Boolean).join(' / ')],
+      ['Arrivée', formatDate(s.ata || s.eta)],
+      ['Déclaration', s.declarationNumber],
+      ['Bon à enlever (BAE)', s.baeNumber],
+      ['Delivery order (DO)', s.doNumber],
+    ]);
+    section(doc, 'Conteneurs');
+    table(doc, CONTAINER_COLUMNS, containerRows(s.containers));
+    signatures(doc, `Pour ${s.company.name}`, 'Visa de la compagnie');
+  },
+};
+
+// ============================================
+// Rendering
+// ============================================
+
+export const renderShipmentPdf = async (kind: PdfKind, shipment: PdfShipment): Promise<Buffer> => {
+  const logo = loadLogo(shipment.company.logo);
+  const doc = new PDFDocument({ size: 'A4', margin: MARGIN, bufferPages: true });
+  const chunks: Buffer[] = [];
+
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  doc.info.Title = `${PDF_KINDS[kind].title} - ${shipment.trackingNumber}`;
+  doc.info.Author = shipment.company.name;
+
+  drawHeader(doc, shipment.company, logo, PDF_KINDS[kind].title, shipment.trackingNumber);
+  TEMPLATES[kind](doc, shipment);
+  drawFooter(doc, shipment.company);
+  doc.end();
+
+  return done;
+};
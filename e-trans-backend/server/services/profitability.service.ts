@@ -0,0 +1,188 @@
+// server/services/profitability.service.ts
+
+import type { CustomsRegime, ExpenseCategory, Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { FEE_CATEGORIES } from './invoice.service.js';
+
+/**
+ * Disbursements re-billed at cost, by who gets the money. Anything not
+ * listed (and not a fee) counts as `other`.
+ */
+export const PASS_THROUGH_GROUPS = {
+  customs: ['DD', 'TVA', 'RTL', 'PC', 'CA', 'BFU', 'ACCISE', 'DROIT_SORTIE', 'DDI_FEE', 'SCANNER'],
+  terminal: ['ACCONAGE', 'BRANCHEMENT', 'MANUTENTION', 'PASSAGE_TERRE', 'RELEVAGE', 'SECURITE_TERMINAL', 'MAGASINAGE'],
+  shippingLine: ['SURESTARIES', 'DO_FEE', 'SEAWAY_BILL', 'MANIFEST_FEE', 'CONTAINER_DAMAGE', 'SECURITE_MSC', 'SURCHARGE', 'PAC'],
+  transport: ['TRANSPORT', 'TRANSPORT_ADD', 'ESCORTE'],
+} satisfies Record<string, ExpenseCategory[]>;
+
+export type PassThroughGroup = keyof typeof PASS_THROUGH_GROUPS | 'other';
+
+export const PROFITABILITY_GROUPINGS = ['shipment', 'client', 'agent', 'month', 'regime'] as const;
+
+export type ProfitabilityGrouping = (typeof PROFITABILITY_GROUPINGS)[number];
+
+export interface ProfitabilityFilters {
+  from?: Date;
+  to?: Date;
+  regime?: CustomsRegime;
+  clientId?: string;
+  agentId?: string;
+}
+
+export interface ProfitabilityFigures {
+  shipments: number;
+  passThrough: Record<PassThroughGroup, number> & { total: number };
+  fees: number;
+  transportMargin: number;
+  revenue: number;
+  // Share of what the client paid that we keep
+  marginRate: number;
+}
+
+export interface ProfitabilityRow extends ProfitabilityFigures {
+  key: string;
+  label: string;
+}
+
+const passThroughGroup = (category: ExpenseCategory): PassThroughGroup =>
+  (Object.keys(PASS_THROUGH_GROUPS) as (keyof typeof PASS_THROUGH_GROUPS)[])
+    .find(group => (PASS_THROUGH_GROUPS[group] as ExpenseCategory[]).includes(category)) || 'other';
+
+const emptyFigures = (): ProfitabilityFigures => ({
+  shipments: 0,
+  passThrough: { customs: 0, terminal: 0, shippingLine: 0, transport: 0, other: 0, total: 0 },
+  fees: 0,
+  transportMargin: 0,
+  revenue: 0,
+  marginRate: 0,
+});
+
+const shipmentSelect = {
+  id: true,
+  trackingNumber: true,
+  clientId: true,
+  clientName: true,
+  customsRegime: true,
+  status: true,
+  createdAt: true,
+  createdBy: { select: { id: true, name: true } },
+  expenses: {
+    where: { type: 'DISBURSEMENT' },
+    select: { category: true, amount: true },
+  },
+  invoices: {
+    where: { type: 'INVOICE', status: { in: ['ISSUED', 'PAID'] } },
+    select: {
+      lines: {
+        where: { kind: 'FEE', expenseId: null },
+        select: { category: true, amount: true },
+      },
+    },
+  },
+} satisfies Prisma.ShipmentSelect;
+
+type ProfitabilityShipment = Prisma.ShipmentGetPayload<{ select: typeof shipmentSelect }>;
+
+/**
+ * Fees are the HONORAIRES / COMMISSION recorded on the dossier plus the
+ * fee lines typed on its issued invoices; manual fee lines on drafts are
+ * not earned yet. Cancelled invoices are left out with their credit notes.
+ */
+const addShipment = (figures: ProfitabilityFigures, shipment: ProfitabilityShipment) => {
+  figures.shipments++;
+
+  for (const e of shipment.expenses) {
+    if (FEE_CATEGORIES.includes(e.category)) {
+      figures.fees += e.amount;
+    } else {
+      figures.passThrough[passThroughGroup(e.category)] += e.amount;
+      figures.passThrough.total += e.amount;
+    }
+  }
+
+  for (const l of shipment.invoices.flatMap(i => i.lines)) {
+    // Trucking is re-billed at cost; what we charge on top of it is billed
+    // as a TRANSPORT fee line
+    if (l.category === 'TRANSPORT') {
+      figures.transportMargin += l.amount;
+    } else {
+      figures.fees += l.amount;
+    }
+  }
+};
+
+const finish = (figures: ProfitabilityFigures): ProfitabilityFigures => {
+  const revenue = figures.fees + figures.transportMargin;
+  const billed = revenue + figures.passThrough.total;
+  return {
+    ...figures,
+    revenue,
+    marginRate: billed > 0 ? Math.round((revenue / billed) * 10000) / 100 : 0,
+  };
+};
+
+const month = (date: Date) => date.toISOString().slice(0, 7);
+
+const groupKey = (shipment: ProfitabilityShipment, groupBy: ProfitabilityGrouping) => {
+  switch (groupBy) {
+    case 'shipment':
+      return { key: shipment.id, label: `${shipment.trackingNumber} — ${shipment.clientName}` };
+    case 'client':
+      return { key: shipment.clientId || `name:${shipment.clientName}`, label: shipment.clientName };
+    case 'agent':
+      return { key: shipment.createdBy.id, label: shipment.createdBy.name };
+    case 'month':
+      return { key: month(shipment.createdAt), label: month(shipment.createdAt) };
+    case 'regime':
+      return { key: shipment.customsRegime, label: shipment.customsRegime };
+  }
+};
+
+/**
+ * Profitability of the dossiers opened in the period, grouped by
+ * `groupBy`: pass-through disbursements on one side, our revenue (fees and
+ * transport margin) on the other. Months are sorted in order, every other
+ * grouping by revenue, best first.
+ */
+export const buildProfitabilityReport = async (
+  companyId: string,
+  groupBy: ProfitabilityGrouping,
+  filters: ProfitabilityFilters = {}
+) => {
+  const shipments = await prisma.shipment.findMany({
+    where: {
+      companyId,
+      ...((filters.from || filters.to) && {
+        createdAt: {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lte: filters.to }),
+        },
+      }),
+      ...(filters.regime && { customsRegime: filters.regime }),
+      ...(filters.clientId && { clientId: filters.clientId }),
+      ...(filters.agentId && { createdById: filters.agentId }),
+    },
+    select: shipmentSelect,
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const groups = new Map<string, ProfitabilityRow>();
+  const totals = emptyFigures();
+
+  for (const shipment of shipments) {
+    const { key, label } = groupKey(shipment, groupBy);
+    let row = groups.get(key);
+    if (!row) {
+      row = { key, label, ...emptyFigures() };
+      groups.set(key, row);
+    }
+    addShipment(row, shipment);
+    addShipment(totals, shipment);
+  }
+
+  const rows = [...groups.values()]
+    .map(row => ({ ...row, ...finish(row) }))
+    .sort((a, b) => (groupBy === 'month' ? a.key.localeCompare(b.key) : b.revenue - a.revenue));
+
+  return { groupBy, rows, totals: finish(totals) };
+};
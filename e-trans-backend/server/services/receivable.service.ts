@@ -0,0 +1,308 @@
+// server/services/receivable.service.ts
+
+import type { ClientPayment, PaymentAllocation, PaymentMethod, Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { nextSequenceValue, sequenceYear } from './numbering.service.js';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  CASH: 'Espèces',
+  CHEQUE: 'Chèque',
+  BANK_TRANSFER: 'Virement bancaire',
+  MOBILE_MONEY: 'Mobile money',
+};
+
+const RECEIPT_PADDING = 5;
+
+// Below one franc, amounts are considered settled
+const EPSILON = 0.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class AllocationError extends Error {
+  constructor(public code: string, message: string, public status = 422) {
+    super(message);
+    this.name = 'AllocationError';
+  }
+}
+
+export const allocateReceiptNumber = async (
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  date = new Date()
+) => {
+  const year = sequenceYear(date);
+  const value = await nextSequenceValue(tx, companyId, 'RECEIPT', year);
+
+  return `REC-${year}-${String(value).padStart(RECEIPT_PADDING, '0')}`;
+};
+
+export const unallocatedAmount = (payment: Pick<ClientPayment, 'amount'> & { allocations: Pick<PaymentAllocation, 'amount'>[] }) =>
+  payment.amount - payment.allocations.reduce((sum, a) => sum + a.amount, 0);
+
+export interface AllocationTarget {
+  invoiceId?: string;
+  shipmentId?: string;
+  amount: number;
+}
+
+/**
+ * Applies part of a payment to an invoice, which is marked paid once fully
+ * settled, or to a dossier, where it is recorded as a provision. Throws an
+ * AllocationError when the target does not accept the amount.
+ */
+export const allocatePayment = async (
+  tx: Prisma.TransactionClient,
+  paymentId: string,
+  target: AllocationTarget
+) => {
+  const payment = await tx.clientPayment.findUniqueOrThrow({
+    where: { id: paymentId },
+    include: { allocations: true },
+  });
+
+  if (payment.cancelledAt) {
+    throw new AllocationError('PAYMENT_CANCELLED', 'Encaissement annulé', 409);
+  }
+
+  const remaining = unallocatedAmount(payment);
+  if (target.amount > remaining + EPSILON) {
+    throw new AllocationError(
+      'ALLOCATION_EXCEEDS_PAYMENT',
+      `Montant supérieur au solde non imputé (${remaining.toLocaleString('fr-FR')} GNF)`
+    );
+  }
+
+  if (target.invoiceId) {
+    const invoice = await tx.invoice.findFirst({
+      where: { id: target.invoiceId, companyId: payment.companyId, type: 'INVOICE' },
+    });
+
+    if (!invoice) throw new AllocationError('NOT_FOUND', 'Facture non trouvée', 404);
+    if (invoice.status !== 'ISSUED') {
+      throw new AllocationError('INVALID_INVOICE_STATUS', 'Seule une facture émise et non réglée peut être imputée', 409);
+    }
+    if (invoice.clientId && invoice.clientId !== payment.clientId) {
+      throw new AllocationError('CLIENT_MISMATCH', 'La facture est au nom d\'un autre client');
+    }
+
+    const outstanding = invoice.amountDue - invoice.amountPaid;
+    if (target.amount > outstanding + EPSILON) {
+      throw new AllocationError(
+        'ALLOCATION_EXCEEDS_BALANCE',
+        `Montant supérieur au reste à payer (${outstanding.toLocaleString('fr-FR')} GNF)`
+      );
+    }
+
+    // Guarded on the balance read above, in case another receipt got there first
+    const updated = await tx.invoice.updateMany({
+      where: { id: invoice.id, status: 'ISSUED', amountPaid: invoice.amountPaid },
+      data: { amountPaid: { increment: target.amount } },
+    });
+    if (updated.count === 0) {
+      throw new AllocationError('CONFLICT', 'La facture a été modifiée entre-temps, réessayez', 409);
+    }
+
+    if (target.amount >= outstanding - EPSILON) {
+      await tx.invoice.update({
+        where: { id: invoice.id },
+        data: { status: 'PAID', paidAt: payment.receivedAt },
+      });
+    }
+
+    return tx.paymentAllocation.create({
+      data: { paymentId, invoiceId: invoice.id, amount: target.amount },
+    });
+  }
+
+  const shipment = await tx.shipment.findFirst({
+    where: { id: target.shipmentId, companyId: payment.companyId },
+  });
+
+  if (!shipment) throw new AllocationError('NOT_FOUND', 'Dossier non trouvé', 404);
+  if (shipment.clientId !== payment.clientId) {
+    throw new AllocationError('CLIENT_MISMATCH', 'Le dossier appartient à un autre client');
+  }
+
+  // The cash is already in the bank: the provision is settled on creation
+  const provision = await tx.expense.create({
+    data: {
+      shipmentId: shipment.id,
+      type: 'PROVISION',
+      category: 'AUTRE',
+      description: `Encaissement ${payment.number} (${PAYMENT_METHOD_LABELS[payment.method]})`,
+      amount: target.amount,
+      reference: payment.externalRef,
+      source: 'PAYMENT',
+      paid: true,
+      paidAt: payment.receivedAt,
+    },
+  });
+
+  return tx.paymentAllocation.create({
+    data: { paymentId, shipmentId: shipment.id, expenseId: provision.id, amount: target.amount },
+  });
+};
+
+/**
+ * Reverses an allocation: the invoice goes back to issued, the provision is
+ * removed. A provision already deducted on an issued invoice stays until
+ * that invoice is cancelled by a credit note.
+ */
+export const removeAllocation = async (tx: Prisma.TransactionClient, allocation: PaymentAllocation) => {
+  if (allocation.expenseId && allocation.shipmentId) {
+    const [provisions, deducted] = await Promise.all([
+      tx.expense.aggregate({
+        where: { shipmentId: allocation.shipmentId, type: 'PROVISION' },
+        _sum: { amount: true },
+      }),
+      tx.invoice.aggregate({
+        where: { shipmentId: allocation.shipmentId, type: 'INVOICE', status: { in: ['ISSUED', 'PAID'] } },
+        _sum: { provisionsDeducted: true },
+      }),
+    ]);
+
+    const left = (provisions._sum.amount || 0) - allocation.amount - (deducted._sum.provisionsDeducted || 0);
+    if (left < -EPSILON) {
+      throw new AllocationError(
+        'PROVISION_DEDUCTED',
+        'Provision déjà déduite sur une facture émise : annulez d\'abord la facture par un avoir',
+        409
+      );
+    }
+  }
+
+  if (allocation.invoiceId) {
+    const invoice = await tx.invoice.update({
+      where: { id: allocation.invoiceId },
+      data: { amountPaid: { decrement: allocation.amount } },
+    });
+
+    if (invoice.status === 'PAID') {
+      await tx.invoice.update({
+        where: { id: invoice.id },
+        data: { status: 'ISSUED', paidAt: null },
+      });
+    }
+  }
+
+  if (allocation.expenseId) {
+    await tx.expense.deleteMany({ where: { id: allocation.expenseId } });
+  }
+
+  await tx.paymentAllocation.delete({ where: { id: allocation.id } });
+};
+
+// ============================================
+// Aging
+// ============================================
+
+export const AGING_BUCKETS = [
+  { key: '0-30', min: 0, max: 30 },
+  { key: '31-60', min: 31, max: 60 },
+  { key: '61-90', min: 61, max: 90 },
+  { key: '90+', min: 91, max: Infinity },
+] as const;
+
+export type AgingBucket = 'notDue' | (typeof AGING_BUCKETS)[number]['key'];
+
+const bucketFor = (daysOverdue: number): AgingBucket =>
+  daysOverdue <= 0
+    ? 'notDue'
+    : AGING_BUCKETS.find(b => daysOverdue >= b.min && daysOverdue <= b.max)?.key || '90+';
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({
+  notDue: 0, '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0,
+});
+
+/**
+ * Outstanding invoices per client, aged on days past the due date. Payments
+ * not yet applied to anything are reported alongside as `unapplied`.
+ */
+export const buildAgingReport = async (companyId: string, clientId?: string) => {
+  const today = new Date();
+
+  const [invoices, payments] = await Promise.all([
+    prisma.invoice.findMany({
+      where: { companyId, type: 'INVOICE', status: 'ISSUED', ...(clientId && { clientId }) },
+      select: {
+        id: true, number: true, clientId: true, clientName: true, issueDate: true, dueDate: true,
+        amountDue: true, amountPaid: true,
+        shipment: { select: { trackingNumber: true } },
+      },
+      orderBy: { dueDate: 'asc' },
+    }),
+    prisma.clientPayment.findMany({
+      where: { companyId, cancelledAt: null, ...(clientId && { clientId }) },
+      include: { client: { select: { name: true } }, allocations: { select: { amount: true } } },
+    }),
+  ]);
+
+  type Row = {
+    clientId: string | null;
+    clientName: string;
+    buckets: Record<AgingBucket, number>;
+    total: number;
+    unapplied: number;
+    invoices: {
+      id: string;
+      number: string | null;
+      trackingNumber: string;
+      dueDate: Date | null;
+      outstanding: number;
+      daysOverdue: number;
+      bucket: AgingBucket;
+    }[];
+  };
+
+  const rows = new Map<string, Row>();
+  const rowFor = (id: string | null, name: string) => {
+    const key = id || `name:${name}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = { clientId: id, clientName: name, buckets: emptyBuckets(), total: 0, unapplied: 0, invoices: [] };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  for (const invoice of invoices) {
+    const outstanding = invoice.amountDue - invoice.amountPaid;
+    if (outstanding <= EPSILON) continue;
+
+    const dueDate = invoice.dueDate || invoice.issueDate;
+    const daysOverdue = dueDate ? Math.floor((today.getTime() - dueDate.getTime()) / DAY_MS) : 0;
+    const bucket = bucketFor(daysOverdue);
+
+    const row = rowFor(invoice.clientId, invoice.clientName);
+    row.buckets[bucket] += outstanding;
+    row.total += outstanding;
+    row.invoices.push({
+      id: invoice.id,
+      number: invoice.number,
+      trackingNumber: invoice.shipment.trackingNumber,
+      dueDate: invoice.dueDate,
+      outstanding,
+      daysOverdue: Math.max(0, daysOverdue),
+      bucket,
+    });
+  }
+
+  for (const payment of payments) {
+    const unapplied = unallocatedAmount(payment);
+    if (unapplied > EPSILON) rowFor(payment.clientId, payment.client.name).unapplied += unapplied;
+  }
+
+  const clients = [...rows.values()].sort((a, b) => b.total - a.total);
+
+  const totals = clients.reduce(
+    (acc, row) => {
+      for (const key of Object.keys(acc.buckets) as AgingBucket[]) acc.buckets[key] += row.buckets[key];
+      acc.total += row.total;
+      acc.unapplied += row.unapplied;
+      return acc;
+    },
+    { buckets: emptyBuckets(), total: 0, unapplied: 0 }
+  );
+
+  return { asOf: today, clients, totals };
+};
@@ -0,0 +1,212 @@
+// server/services/storage.service.ts
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import type { Response } from 'express';
+import type { Document } from '@prisma/client';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+import { env } from '../config/env.js';
+import { log } from '../config/logger.js';
+
+export interface StorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+export class StorageNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Stored file not found: ${key}`);
+    this.name = 'StorageNotFoundError';
+  }
+}
+
+// ============================================
+// Drivers
+// ============================================
+
+const localDriver = (root: string): StorageDriver => {
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(path.resolve(root) + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+    return file;
+  };
+
+  return {
+    async put(key, body) {
+      const file = resolve(key);
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(file, body, { flag: 'wx' });
+    },
+
+    async get(key) {
+      const file = resolve(key);
+      try {
+        await fs.promises.access(file);
+      } catch {
+        throw new StorageNotFoundError(key);
+      }
+      return fs.createReadStream(file);
+    },
+
+    async delete(key) {
+      await fs.promises.rm(resolve(key), { force: true });
+    },
+  };
+};
+
+const s3Driver = (): StorageDriver => {
+  const client = new S3Client({
+    region: env.S3_REGION,
+    endpoint: env.S3_ENDPOINT || undefined,
+    forcePathStyle: env.S3_FORCE_PATH_STYLE,
+    credentials: env.S3_ACCESS_KEY_ID
+      ? { accessKeyId: env.S3_ACCESS_KEY_ID, secretAccessKey: env.S3_SECRET_ACCESS_KEY }
+      : undefined,
+  });
+  const Bucket = env.S3_BUCKET;
+
+  return {
+    async put(key, body, contentType) {
+      await client.send(new PutObjectCommand({ Bucket, Key: key, Body: body, ContentType: contentType }));
+    },
+
+    async get(key) {
+      try {
+        const object = await client.send(new GetObjectCommand({ Bucket, Key: key }));
+        return object.Body as Readable;
+      } catch (error) {
+        if ((error as { name?: string }).name === 'NoSuchKey') throw new StorageNotFoundError(key);
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket, Key: key }));
+    },
+  };
+};
+
+export const storage: StorageDriver = env.STORAGE_DRIVER === 's3'
+  ? s3Driver()
+  : localDriver(env.STORAGE_LOCAL_DIR);
+
+// ============================================
+// Uploads
+// ============================================
+
+export const ALLOWED_MIME_TYPES: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+};
+
+export const MAX_UPLOAD_SIZE = env.UPLOAD_MAX_SIZE_MB * 1024 * 1024;
+
+// The declared MIME type comes from the client; check the file agrees
+const matchesSignature = (mimeType: string, buffer: Buffer) => {
+  switch (mimeType) {
+    case 'application/pdf':
+      return buffer.subarray(0, 5).toString('latin1') === '%PDF-';
+    case 'image/jpeg':
+      return buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff;
+    case 'image/png':
+      return buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    case 'image/webp':
+      return buffer.subarray(0, 4).toString('latin1') === 'RIFF' && buffer.subarray(8, 12).toString('latin1') === 'WEBP';
+    default:
+      return false;
+  }
+};
+
+export const checkUpload = (file: { mimetype: string; buffer: Buffer; size: number }) => {
+  if (!ALLOWED_MIME_TYPES[file.mimetype]) {
+    return 'Type de fichier non autorisé (PDF, JPEG, PNG ou WEBP)';
+  }
+  if (file.size === 0) {
+    return 'Fichier vide';
+  }
+  if (!matchesSignature(file.mimetype, file.buffer)) {
+    return 'Le contenu du fichier ne correspond pas à son type';
+  }
+  return null;
+};
+
+/**
+ * Stores an uploaded file under `<companyId>/<shipmentId>/` with a random
+ * name, and returns what the Document row needs to point at it.
+ */
+export const storeUpload = async (
+  companyId: string,
+  shipmentId: string,
+  file: { mimetype: string; buffer: Buffer; size: number }
+) => {
+  const key = `${companyId}/${shipmentId}/${crypto.randomUUID()}${ALLOWED_MIME_TYPES[file.mimetype]}`;
+  const checksum = crypto.createHash('sha256').update(file.buffer).digest('hex');
+
+  await storage.put(key, file.buffer, file.mimetype);
+
+  return { storageKey: key, mimeType: file.mimetype, size: file.size, checksum };
+};
+
+// Blob removal never fails the request: the row is already gone
+export const removeStored = async (key: string | null) => {
+  if (!key) return;
+  try {
+    await storage.delete(key);
+  } catch (error) {
+    log.error(`Stored file removal failed (${key})`, error);
+  }
+};
+
+// ============================================
+// Downloads
+// ============================================
+
+/**
+ * Streams a stored document to the response. Callers check access first;
+ * documents that are only a link are redirected to it.
+ */
+export const sendDocument = async (
+  res: Response,
+  document: Pick<Document, 'name' | 'url' | 'storageKey' | 'mimeType' | 'size' | 'checksum'>,
+  disposition: 'inline' | 'attachment' = 'inline'
+) => {
+  if (!document.storageKey) {
+    return res.redirect(document.url);
+  }
+
+  let stream: Readable;
+  try {
+    stream = await storage.get(document.storageKey);
+  } catch (error) {
+    if (error instanceof StorageNotFoundError) {
+      return res.status(404).json({ success: false, message: 'Fichier introuvable' });
+    }
+    throw error;
+  }
+
+  const extension = ALLOWED_MIME_TYPES[document.mimeType || ''] || '';
+  const fileName = document.name.endsWith(extension) ? document.name : `${document.name}${extension}`;
+
+  res.setHeader('Content-Type', document.mimeType || 'application/octet-stream');
+  if (document.size) res.setHeader('Content-Length', document.size);
+  if (document.checksum) res.setHeader('ETag', `"${document.checksum}"`);
+  res.setHeader('Content-Disposition', `${disposition}; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+  res.setHeader('Cache-Control', 'private, no-store');
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+
+  stream.on('error', error => {
+    log.error('Document stream error', error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+};
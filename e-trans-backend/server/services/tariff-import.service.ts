@@ -0,0 +1,184 @@
+// server/services/tariff-import.service.ts
+
+import type { TariffCode } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { parseCsv, parseCsvNumber, pickColumn } from '../utils/csv.js';
+import { CET_CATEGORY_RATES, LevyCode, STANDARD_LEVIES, normalizeHsCode } from './customs.service.js';
+
+// Rates in import files are written as percentages (35, 0.5), as in the
+// published tariff schedule.
+export interface TariffRow {
+  hsCode: string;
+  description: string;
+  cetCategory: number;
+  vatExempt: boolean;
+  exciseRate: number;
+  exportRate: number;
+  levies: Partial<Record<LevyCode, number>> | null;
+}
+
+export interface ImportError {
+  line: number;
+  message: string;
+}
+
+const TRUE_VALUES = ['1', 'true', 'oui', 'o', 'x', 'yes'];
+
+// ============================================
+// Parsing
+// ============================================
+
+const toRow = (raw: Record<string, string>): TariffRow | string => {
+  const hsCode = normalizeHsCode(pickColumn(raw, 'hscode', 'code', 'code_sh', 'nts') || '');
+  if (!/^\d{4,10}$/.test(hsCode)) return `Code SH invalide: "${hsCode}"`;
+
+  const description = pickColumn(raw, 'description', 'libelle', 'libellé', 'designation', 'désignation');
+  if (!description) return `Description manquante pour ${hsCode}`;
+
+  let cetCategory = parseCsvNumber(pickColumn(raw, 'cetcategory', 'categorie', 'catégorie', 'tec'));
+  if (cetCategory === undefined) {
+    const ddPercent = parseCsvNumber(pickColumn(raw, 'ddrate', 'taux_dd', 'dd'));
+    if (ddPercent !== undefined) {
+      const index = CET_CATEGORY_RATES.findIndex(r => Math.abs(r * 100 - ddPercent) < 0.001);
+      if (index === -1) return `Taux DD ${ddPercent}% hors catégories TEC pour ${hsCode}`;
+      cetCategory = index;
+    }
+  }
+  if (cetCategory === undefined || !Number.isInteger(cetCategory) || cetCategory < 0 || cetCategory > 4) {
+    return `Catégorie TEC invalide pour ${hsCode}`;
+  }
+
+  const levies: Partial<Record<LevyCode, number>> = {};
+  for (const code of Object.keys(STANDARD_LEVIES) as LevyCode[]) {
+    const percent = parseCsvNumber(pickColumn(raw, code));
+    if (percent !== undefined) levies[code] = percent / 100;
+  }
+
+  return {
+    hsCode,
+    description,
+    cetCategory,
+    vatExempt: TRUE_VALUES.includes((pickColumn(raw, 'vatexempt', 'exonere_tva', 'exo_tva') || '').toLowerCase()),
+    exciseRate: (parseCsvNumber(pickColumn(raw, 'exciserate', 'accise', 'taux_accise')) || 0) / 100,
+    exportRate: (parseCsvNumber(pickColumn(raw, 'exportrate', 'droit_sortie', 'ds')) || 0) / 100,
+    levies: Object.keys(levies).length > 0 ? levies : null,
+  };
+};
+
+export const parseTariffFile = (format: 'csv' | 'json', content: string) => {
+  let rawRows: Record<string, string>[];
+
+  if (format === 'csv') {
+    rawRows = parseCsv(content);
+  } else {
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed)) throw new SyntaxError('Le fichier JSON doit contenir un tableau');
+    rawRows = parsed.map((item: Record<string, unknown>) =>
+      Object.fromEntries(Object.entries(item).map(([k, v]) => [k.toLowerCase(), v === null ? '' : String(v)]))
+    );
+  }
+
+  const rows: TariffRow[] = [];
+  const errors: ImportError[] = [];
+  const seen = new Set<string>();
+
+  rawRows.forEach((raw, i) => {
+    // +2: header line and 1-based numbering
+    const line = format === 'csv' ? i + 2 : i + 1;
+    const result = toRow(raw);
+
+    if (typeof result === 'string') {
+      errors.push({ line, message: result });
+    } else if (seen.has(result.hsCode)) {
+      errors.push({ line, message: `Code SH en double: ${result.hsCode}` });
+    } else {
+      seen.add(result.hsCode);
+      rows.push(result);
+    }
+  });
+
+  return { rows, errors };
+};
+
+// ============================================
+// Diff
+// ============================================
+
+const COMPARED_FIELDS = ['description', 'cetCategory', 'vatExempt', 'exciseRate', 'exportRate', 'levies'] as const;
+
+// jsonb does not keep key order: levies are compared with sorted keys
+const comparable = (value: unknown) =>
+  JSON.stringify(
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value ?? null
+  );
+
+const changedFields = (current: TariffCode, row: TariffRow) =>
+  COMPARED_FIELDS.filter(field => comparable(current[field]) !== comparable(row[field]));
+
+export const diffTariffs = (current: TariffCode[], rows: TariffRow[]) => {
+  const byCode = new Map(current.map(t => [t.hsCode, t]));
+  const inFile = new Set(rows.map(r => r.hsCode));
+
+  const added: TariffRow[] = [];
+  const changed: { current: TariffCode; row: TariffRow; fields: string[] }[] = [];
+  let unchanged = 0;
+
+  for (const row of rows) {
+    const existing = byCode.get(row.hsCode);
+    if (!existing) {
+      added.push(row);
+      continue;
+    }
+    const fields = changedFields(existing, row);
+    if (fields.length > 0) {
+      changed.push({ current: existing, row, fields });
+    } else {
+      unchanged++;
+    }
+  }
+
+  const removed = current.filter(t => !inFile.has(t.hsCode));
+
+  return { added, changed, removed, unchanged };
+};
+
+export type TariffDiff = ReturnType<typeof diffTariffs>;
+
+// ============================================
+// Apply
+// ============================================
+
+/**
+ * Writes a diff as a new tariff version: changed and removed lines are
+ * closed at `effectiveFrom`, changed and added lines start at it. Older
+ * versions are kept so past dossiers are still calculated with their rates.
+ */
+export const applyTariffDiff = async (
+  companyId: string,
+  diff: TariffDiff,
+  effectiveFrom: Date,
+  removeMissing: boolean
+) => {
+  const toClose = [
+    ...diff.changed.map(c => c.current.id),
+    ...(removeMissing ? diff.removed.map(t => t.id) : []),
+  ];
+  const toCreate = [...diff.added, ...diff.changed.map(c => c.row)];
+
+  await prisma.$transaction([
+    prisma.tariffCode.updateMany({
+      where: { id: { in: toClose }, companyId },
+      data: { effectiveTo: effectiveFrom },
+    }),
+    prisma.tariffCode.createMany({
+      data: toCreate.map(row => ({
+        ...row,
+        levies: row.levies ?? undefined,
+        companyId,
+        effectiveFrom,
+      })),
+    }),
+  ]);
+};
@@ -0,0 +1,87 @@
+// server/services/tracking.service.ts
+
+import crypto from 'crypto';
+import type { Container, ShipmentStatus, TimelineEvent } from '@prisma/client';
+import { CONTAINER_EVENT_FLOW } from './container.service.js';
+
+// No 0/O or 1/I: the secret is read off a printed receipt
+const SECRET_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const SECRET_LENGTH = 6;
+
+export const generateTrackingSecret = (): string =>
+  Array.from(crypto.randomBytes(SECRET_LENGTH), b => SECRET_ALPHABET[b % SECRET_ALPHABET.length]).join('');
+
+const normalizeKey = (value: string) => value.toUpperCase().replace(/[\s.\-/]/g, '');
+
+const sameKey = (a: string, b: string) => {
+  const left = Buffer.from(normalizeKey(a));
+  const right = Buffer.from(normalizeKey(b));
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+// The second factor is either the BL number or the receipt secret
+export const matchesTrackingKey = (
+  shipment: { blNumber: string | null; trackingSecret: string | null },
+  key: string
+) =>
+  normalizeKey(key).length > 0 &&
+  [shipment.blNumber, shipment.trackingSecret].some(value => value && sameKey(value, key));
+
+export const PUBLIC_STATUS_LABELS: Record<ShipmentStatus, string> = {
+  DRAFT: 'Dossier ouvert',
+  PENDING: 'En attente du navire',
+  ARRIVED: 'Navire arrivé',
+  DDI_OBTAINED: 'Formalités en cours',
+  DECLARATION_FILED: 'Déclaration en douane déposée',
+  LIQUIDATION_ISSUED: 'Dédouanement en cours',
+  CUSTOMS_PAID: 'Droits acquittés',
+  BAE_ISSUED: 'Bon à enlever obtenu',
+  TERMINAL_PAID: 'Frais terminal réglés',
+  DO_RELEASED: 'Marchandise libérée',
+  EXIT_NOTE_ISSUED: 'Prête pour enlèvement',
+  IN_DELIVERY: 'En cours de livraison',
+  DELIVERED: 'Livrée',
+  INVOICED: 'Livrée',
+  CLOSED: 'Dossier clôturé',
+  ARCHIVED: 'Dossier clôturé',
+};
+
+const STATUS_EVENT_PREFIX = 'Statut changé: ';
+
+/**
+ * Builds the public timeline from status changes and container milestones
+ * only. Free-text entries, user names and anything touching money or
+ * documents are left out.
+ */
+export const redactTimeline = (
+  timeline: Pick<TimelineEvent, 'action' | 'date'>[],
+  containers: Pick<Container, 'number' | 'dischargedAt' | 'gateOutAt' | 'deliveredAt' | 'emptyReturnedAt'>[]
+) => {
+  const events: { date: Date; label: string; container?: string }[] = [];
+  let lastLabel: string | undefined;
+
+  const ordered = [...timeline].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  for (const entry of ordered) {
+    let label: string | undefined;
+    if (entry.action === 'Dossier créé') {
+      label = PUBLIC_STATUS_LABELS.DRAFT;
+    } else if (entry.action.startsWith(STATUS_EVENT_PREFIX)) {
+      label = PUBLIC_STATUS_LABELS[entry.action.slice(STATUS_EVENT_PREFIX.length) as ShipmentStatus];
+    }
+    // Internal steps sharing a public label collapse into one entry
+    if (label && label !== lastLabel) {
+      events.push({ date: entry.date, label });
+      lastLabel = label;
+    }
+  }
+
+  for (const container of containers) {
+    for (const step of Object.values(CONTAINER_EVENT_FLOW)) {
+      const date = container[step.dateField];
+      if (date) events.push({ date, label: step.label, container: container.number });
+    }
+  }
+
+  return events.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
@@ -0,0 +1,153 @@
+// server/services/treasury.service.ts
+
+import crypto from 'crypto';
+import type { Prisma, TreasuryMovementType } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+
+export class TreasuryError extends Error {
+  constructor(public code: string, message: string, public status = 422) {
+    super(message);
+    this.name = 'TreasuryError';
+  }
+}
+
+export interface MovementInput {
+  accountId: string;
+  companyId: string;
+  type: TreasuryMovementType;
+  amount: number;
+  label: string;
+  date?: Date;
+  reference?: string | null;
+  expenseId?: string;
+  paymentId?: string;
+  transferId?: string;
+  createdById: string;
+}
+
+/**
+ * Posts a movement and moves the account balance with it. A cash box cannot
+ * go below zero; bank accounts may (overdraft). The balance is updated
+ * atomically, so `balanceAfter` is exact even with concurrent postings.
+ */
+export const postMovement = async (tx: Prisma.TransactionClient, input: MovementInput) => {
+  const account = await tx.treasuryAccount.findFirst({
+    where: { id: input.accountId, companyId: input.companyId },
+  });
+
+  if (!account) throw new TreasuryError('ACCOUNT_NOT_FOUND', 'Compte de trésorerie non trouvé', 404);
+  if (!account.isActive) throw new TreasuryError('ACCOUNT_INACTIVE', `Compte ${account.name} désactivé`, 409);
+
+  const guard = account.type === 'CASH' && input.amount < 0 ? { balance: { gte: -input.amount } } : {};
+  const updated = await tx.treasuryAccount.updateMany({
+    where: { id: account.id, ...guard },
+    data: { balance: { increment: input.amount } },
+  });
+
+  if (updated.count === 0) {
+    throw new TreasuryError(
+      'INSUFFICIENT_FUNDS',
+      `Solde de ${account.name} insuffisant (${account.balance.toLocaleString('fr-FR')} GNF)`
+    );
+  }
+
+  const { balance } = await tx.treasuryAccount.findUniqueOrThrow({
+    where: { id: account.id },
+    select: { balance: true },
+  });
+
+  return tx.treasuryMovement.create({
+    data: {
+      accountId: account.id,
+      type: input.type,
+      amount: input.amount,
+      balanceAfter: balance,
+      date: input.date || new Date(),
+      label: input.label,
+      reference: input.reference,
+      expenseId: input.expenseId,
+      paymentId: input.paymentId,
+      transferId: input.transferId,
+      createdById: input.createdById,
+    },
+  });
+};
+
+// Both legs of an internal transfer share a transferId
+export const transferFunds = async (
+  tx: Prisma.TransactionClient,
+  input: {
+    companyId: string;
+    fromAccountId: string;
+    toAccountId: string;
+    amount: number;
+    date?: Date;
+    label?: string;
+    reference?: string;
+    createdById: string;
+  }
+) => {
+  const transferId = crypto.randomUUID();
+  const label = input.label || 'Virement interne';
+  const common = {
+    companyId: input.companyId,
+    type: 'TRANSFER' as const,
+    date: input.date,
+    reference: input.reference,
+    transferId,
+    createdById: input.createdById,
+  };
+
+  const out = await postMovement(tx, { ...common, accountId: input.fromAccountId, amount: -input.amount, label });
+  const into = await postMovement(tx, { ...common, accountId: input.toAccountId, amount: input.amount, label });
+
+  return { transferId, movements: [out, into] };
+};
+
+// Reverses every movement posted for a receipt or a payment
+export const reverseMovements = async (
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  where: { paymentId: string } | { expenseId: string },
+  label: string,
+  createdById: string
+) => {
+  const movements = await tx.treasuryMovement.findMany({ where: { ...where, type: { not: 'REVERSAL' } } });
+
+  for (const movement of movements) {
+    await postMovement(tx, {
+      accountId: movement.accountId,
+      companyId,
+      type: 'REVERSAL',
+      amount: -movement.amount,
+      label,
+      reference: movement.reference,
+      ...where,
+      createdById,
+    });
+  }
+};
+
+/**
+ * Creates the cash box and the company's bank account the first time the
+ * treasury is opened, so postings have somewhere to go.
+ */
+export const ensureDefaultAccounts = async (companyId: string) => {
+  const count = await prisma.treasuryAccount.count({ where: { companyId } });
+  if (count > 0) return;
+
+  const company = await prisma.company.findUniqueOrThrow({
+    where: { id: companyId },
+    select: { bankName: true, bankAccount: true },
+  });
+
+  await prisma.treasuryAccount.createMany({
+    data: [
+      { companyId, name: 'Caisse', type: 'CASH' },
+      ...(company.bankName
+        ? [{ companyId, name: company.bankName, type: 'BANK' as const, bankName: company.bankName, accountNumber: company.bankAccount }]
+        : []),
+    ],
+    skipDuplicates: true,
+  });
+};
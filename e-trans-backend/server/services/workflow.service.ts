@@ -0,0 +1,224 @@
+// server/services/workflow.service.ts
+
+import type { Document, Shipment, ShipmentStatus } from '@prisma/client';
+import { ChecklistRule, DocumentIssue, missingDocumentsFor } from './checklist.service.js';
+
+// ============================================
+// Transition graph
+// ============================================
+
+// Normal forward path of a transit dossier
+export const STATUS_TRANSITIONS: Record<ShipmentStatus, ShipmentStatus[]> = {
+  DRAFT: ['PENDING'],
+  PENDING: ['ARRIVED'],
+  ARRIVED: ['DDI_OBTAINED'],
+  DDI_OBTAINED: ['DECLARATION_FILED'],
+  DECLARATION_FILED: ['LIQUIDATION_ISSUED'],
+  LIQUIDATION_ISSUED: ['CUSTOMS_PAID'],
+  CUSTOMS_PAID: ['BAE_ISSUED'],
+  BAE_ISSUED: ['TERMINAL_PAID'],
+  TERMINAL_PAID: ['DO_RELEASED'],
+  DO_RELEASED: ['EXIT_NOTE_ISSUED'],
+  EXIT_NOTE_ISSUED: ['IN_DELIVERY'],
+  IN_DELIVERY: ['DELIVERED'],
+  DELIVERED: ['INVOICED'],
+  INVOICED: ['CLOSED'],
+  CLOSED: ['ARCHIVED'],
+  ARCHIVED: [],
+};
+
+// Statuses each role may move a dossier into
+const ROLE_TARGETS: Record<string, ShipmentStatus[] | 'ALL'> = {
+  DIRECTOR: 'ALL',
+  ACCOUNTANT: 'ALL',
+  AGENT: [
+    'PENDING', 'ARRIVED', 'DDI_OBTAINED', 'DECLARATION_FILED', 'LIQUIDATION_ISSUED',
+    'CUSTOMS_PAID', 'BAE_ISSUED', 'TERMINAL_PAID', 'DO_RELEASED', 'EXIT_NOTE_ISSUED',
+    'IN_DELIVERY', 'DELIVERED',
+  ],
+  CLIENT: [],
+};
+
+// Roles allowed to leave the graph (skip or go back a step) with `force`
+const OVERRIDE_ROLES = ['DIRECTOR'];
+
+// ============================================
+// Preconditions
+// ============================================
+
+type ShipmentWithDocuments = Shipment & { documents: Pick<Document, 'type'>[] };
+
+interface Precondition {
+  code: string;
+  message: string;
+  // Document checked here, whatever the company's checklist says
+  documentType?: Document['type'];
+  check: (shipment: ShipmentWithDocuments) => boolean;
+}
+
+const hasDocument = (shipment: ShipmentWithDocuments, type: Document['type']) =>
+  shipment.documents.some(d => d.type === type);
+
+const PRECONDITIONS: Partial<Record<ShipmentStatus, Precondition[]>> = {
+  ARRIVED: [
+    { code: 'ATA_REQUIRED', message: 'Date d\'arrivée (ATA) requise', check: s => !!s.ata },
+  ],
+  DDI_OBTAINED: [
+    { code: 'DDI_NUMBER_REQUIRED', message: 'Numéro DDI requis', check: s => !!s.ddiNumber },
+  ],
+  DECLARATION_FILED: [
+    { code: 'DECLARATION_NUMBER_REQUIRED', message: 'Numéro de déclaration requis', check: s => !!s.declarationNumber },
+  ],
+  LIQUIDATION_ISSUED: [
+    { code: 'LIQUIDATION_NUMBER_REQUIRED', message: 'Numéro de liquidation requis', check: s => !!s.liquidationNumber },
+  ],
+  CUSTOMS_PAID: [
+    { code: 'QUITTANCE_NUMBER_REQUIRED', message: 'Numéro de quittance requis', check: s => !!s.quittanceNumber },
+  ],
+  BAE_ISSUED: [
+    { code: 'BAE_NUMBER_REQUIRED', message: 'Numéro BAE requis', check: s => !!s.baeNumber },
+    { code: 'BAE_DOCUMENT_REQUIRED', message: 'Document BAE requis', documentType: 'BAE', check: s => hasDocument(s, 'BAE') },
+  ],
+  DO_RELEASED: [
+    { code: 'DO_NUMBER_REQUIRED', message: 'Numéro DO requis', check: s => !!s.doNumber },
+    { code: 'DO_DOCUMENT_REQUIRED', message: 'Document DO requis', documentType: 'DO', check: s => hasDocument(s, 'DO') },
+  ],
+  EXIT_NOTE_ISSUED: [
+    { code: 'BS_NUMBER_REQUIRED', message: 'Numéro de bon de sortie requis', check: s => !!s.bsNumber },
+  ],
+};
+
+// ============================================
+// Checks
+// ============================================
+
+// Other required documents come from the document checklist: BLOCK items
+// are reported with the preconditions, WARN items as warnings.
+type Issue = { code: string; message: string; documentType?: DocumentIssue['documentType'] };
+
+export type TransitionErrorCode =
+  | 'SAME_STATUS'
+  | 'INVALID_TRANSITION'
+  | 'TRANSITION_FORBIDDEN'
+  | 'PRECONDITION_FAILED';
+
+export type TransitionCheck =
+  | { allowed: true; warnings: Issue[] }
+  | {
+      allowed: false;
+      code: TransitionErrorCode;
+      message: string;
+      missing?: Issue[];
+    };
+
+const TRANSITION_HTTP_STATUS: Record<TransitionErrorCode, number> = {
+  SAME_STATUS: 400,
+  INVALID_TRANSITION: 409,
+  TRANSITION_FORBIDDEN: 403,
+  PRECONDITION_FAILED: 422,
+};
+
+export const transitionHttpStatus = (code: TransitionErrorCode) => TRANSITION_HTTP_STATUS[code];
+
+const roleCanTarget = (role: string, to: ShipmentStatus) => {
+  const targets = ROLE_TARGETS[role] || [];
+  return targets === 'ALL' || targets.includes(to);
+};
+
+const toIssue = ({ code, message, documentType }: DocumentIssue): Issue => ({ code, message, documentType });
+
+// Checklist items for documents a precondition already requires are left out
+const checklistIssues = (shipment: ShipmentWithDocuments, to: ShipmentStatus, checklist: ChecklistRule[]) => {
+  const hard = new Set((PRECONDITIONS[to] || []).map(p => p.documentType).filter(Boolean));
+  return missingDocumentsFor(shipment, to, checklist).filter(d => !hard.has(d.documentType));
+};
+
+export const getMissingPreconditions = (
+  shipment: ShipmentWithDocuments,
+  to: ShipmentStatus,
+  checklist: ChecklistRule[] = []
+): Issue[] => [
+  ...(PRECONDITIONS[to] || [])
+    .filter(p => !p.check(shipment))
+    .map(p => ({ code: p.code, message: p.message })),
+  ...checklistIssues(shipment, to, checklist)
+    .filter(d => d.level === 'BLOCK')
+    .map(toIssue),
+];
+
+export const getDocumentWarnings = (
+  shipment: ShipmentWithDocuments,
+  to: ShipmentStatus,
+  checklist: ChecklistRule[] = []
+): Issue[] =>
+  checklistIssues(shipment, to, checklist)
+    .filter(d => d.level === 'WARN')
+    .map(toIssue);
+
+/**
+ * Checks whether `shipment` may move to `to`. The shipment passed in should
+ * already carry any field changes sent along with the status, so that e.g.
+ * `baeNumber` and `status: BAE_ISSUED` can be set in one request.
+ */
+export const checkTransition = (
+  shipment: ShipmentWithDocuments,
+  to: ShipmentStatus,
+  role: string,
+  options: { force?: boolean; checklist?: ChecklistRule[] } = {}
+): TransitionCheck => {
+  const from = shipment.status;
+
+  if (from === to) {
+    return { allowed: false, code: 'SAME_STATUS', message: 'Le dossier est déjà dans ce statut' };
+  }
+
+  if (!roleCanTarget(role, to)) {
+    return {
+      allowed: false,
+      code: 'TRANSITION_FORBIDDEN',
+      message: `Votre rôle ne permet pas de passer au statut ${to}`,
+    };
+  }
+
+  if (!STATUS_TRANSITIONS[from].includes(to)) {
+    const canOverride = options.force && OVERRIDE_ROLES.includes(role) && from !== 'ARCHIVED';
+    if (!canOverride) {
+      return {
+        allowed: false,
+        code: 'INVALID_TRANSITION',
+        message: `Transition ${from} → ${to} non autorisée`,
+      };
+    }
+  }
+
+  const missing = getMissingPreconditions(shipment, to, options.checklist);
+  if (missing.length > 0) {
+    return {
+      allowed: false,
+      code: 'PRECONDITION_FAILED',
+      message: `Conditions non remplies pour ${to}`,
+      missing,
+    };
+  }
+
+  return { allowed: true, warnings: getDocumentWarnings(shipment, to, options.checklist) };
+};
+
+/**
+ * Lists the next statuses reachable through the normal graph, with the
+ * preconditions still missing for each one.
+ */
+export const getNextStatuses = (
+  shipment: ShipmentWithDocuments,
+  role: string,
+  checklist: ChecklistRule[] = []
+) =>
+  STATUS_TRANSITIONS[shipment.status]
+    .filter(to => roleCanTarget(role, to))
+    .map(to => {
+      const missing = getMissingPreconditions(shipment, to, checklist);
+      const warnings = getDocumentWarnings(shipment, to, checklist);
+      return { status: to, ready: missing.length === 0, missing, warnings };
+    });
+
+export const canOverrideTransitions = (role: string) => OVERRIDE_ROLES.includes(role);
@@ -0,0 +1,83 @@
+// server/utils/csv.ts
+
+/**
+ * Minimal CSV parser: quoted fields, doubled quotes, CRLF. The delimiter is
+ * detected from the header line (`;` is the default in French Excel exports).
+ */
+export const parseCsv = (content: string): Record<string, string>[] => {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...lines] = rows.filter(r => r.some(v => v.trim() !== ''));
+  if (!header) return [];
+
+  const keys = header.map(h => h.trim().toLowerCase());
+  return lines.map(values =>
+    Object.fromEntries(keys.map((key, i) => [key, (values[i] ?? '').trim()]))
+  );
+};
+
+/**
+ * Parses a number written either as `1234.5` / `1,234.5` or French-style
+ * `1 234,5` / `1.234,5`: whichever of comma and dot comes last is the
+ * decimal separator, the other one groups thousands.
+ */
+export const parseCsvNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const compact = value.replace(/\s/g, '');
+  const normalized = compact.lastIndexOf(',') > compact.lastIndexOf('.')
+    ? compact.replace(/\./g, '').replace(',', '.')
+    : compact.replace(/,/g, '');
+  const number = Number(normalized);
+  return isNaN(number) ? undefined : number;
+};
+
+/**
+ * Returns the first non-empty value among several possible column names.
+ */
+export const pickColumn = (row: Record<string, string>, ...names: string[]): string | undefined => {
+  for (const name of names) {
+    const value = row[name.toLowerCase()];
+    if (value !== undefined && value !== '') return value;
+  }
+  return undefined;
+};
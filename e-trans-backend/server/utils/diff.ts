@@ -0,0 +1,47 @@
+// server/utils/diff.ts
+
+// JSON-safe, as changes are stored in audit log details
+export type FieldValue = string | number | boolean | null;
+
+export type FieldChange = {
+  field: string;
+  from: FieldValue;
+  to: FieldValue;
+};
+
+const normalize = (value: unknown): FieldValue => {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return JSON.stringify(value);
+};
+
+/**
+ * Compares the fields present in `changes` against `before` and returns
+ * one entry per field whose value actually differs.
+ */
+export const diffFields = (
+  before: Record<string, unknown>,
+  changes: Record<string, unknown>
+): FieldChange[] => {
+  const result: FieldChange[] = [];
+
+  for (const [field, value] of Object.entries(changes)) {
+    if (value === undefined) continue;
+
+    const from = normalize(before[field]);
+    const to = normalize(value);
+
+    if (from !== to) {
+      result.push({ field, from, to });
+    }
+  }
+
+  return result;
+};
+
+// Audit log details recorded with a list of field changes
+export const hasFieldChanges = (details: unknown): details is { changes: FieldChange[] } =>
+  typeof details === 'object' &&
+  details !== null &&
+  Array.isArray((details as { changes?: unknown }).changes);
@@ -0,0 +1,34 @@
+// server/utils/iso6346.ts
+
+// Container numbers: 3-letter owner code, category (U, J or Z), 6-digit serial, check digit.
+// e.g. CSQU3054383, SEGU9759487
+const CONTAINER_NUMBER_REGEX = /^[A-Z]{3}[UJZ]\d{7}$/;
+
+// Letter values skip multiples of 11 (A=10, B=12, ... Z=38)
+const letterValue = (char: string): number => {
+  let value = 10;
+  for (let c = 'A'.charCodeAt(0); c < char.charCodeAt(0); c++) {
+    value++;
+    if (value % 11 === 0) value++;
+  }
+  return value;
+};
+
+export const normalizeContainerNumber = (value: string): string =>
+  value.toUpperCase().replace(/[\s\-./]/g, '');
+
+export const computeCheckDigit = (first10: string): number => {
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const char = first10[i];
+    const value = /\d/.test(char) ? parseInt(char, 10) : letterValue(char);
+    sum += value * 2 ** i;
+  }
+  return (sum % 11) % 10;
+};
+
+export const isValidContainerNumber = (value: string): boolean => {
+  const number = normalizeContainerNumber(value);
+  if (!CONTAINER_NUMBER_REGEX.test(number)) return false;
+  return computeCheckDigit(number.slice(0, 10)) === parseInt(number[10], 10);
+};
@@ -0,0 +1,54 @@
+// server/utils/xml.ts
+
+/**
+ * Just enough XML reading for bank statements: elements are looked up by
+ * local name, whatever their namespace prefix. Not a general parser — it
+ * assumes the element being searched for is not nested in itself.
+ */
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+
+const elementPattern = (name: string) =>
+  new RegExp(`<(?:[\\w.-]+:)?${name}(\\s[^>]*)?(?:/>|>([\\s\\S]*?)</(?:[\\w.-]+:)?${name}\\s*>)`, 'g');
+
+export interface XmlElement {
+  attributes: Record<string, string>;
+  inner: string;
+}
+
+const parseAttributes = (raw = '') =>
+  Object.fromEntries([...raw.matchAll(/([\w:.-]+)\s*=\s*"([^"]*)"/g)].map(([, key, value]) => [key, decodeEntities(value)]));
+
+// Every `name` element directly or indirectly inside `xml`
+export const xmlElements = (xml: string, name: string): XmlElement[] =>
+  [...xml.matchAll(elementPattern(name))].map(match => ({
+    attributes: parseAttributes(match[1]),
+    inner: match[2] ?? '',
+  }));
+
+/**
+ * Follows a path of element names (`Bal/Amt`) and returns the first match,
+ * or undefined.
+ */
+export const xmlElement = (xml: string, path: string): XmlElement | undefined => {
+  let current: XmlElement | undefined = { attributes: {}, inner: xml };
+  for (const name of path.split('/')) {
+    current = current && xmlElements(current.inner, name)[0];
+  }
+  return current;
+};
+
+export const xmlText = (xml: string, path: string): string | undefined => {
+  const element = xmlElement(xml, path);
+  if (!element) return undefined;
+  const text = decodeEntities(element.inner.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+  return text || undefined;
+};